@@ -258,7 +258,7 @@ export function DataProcessingQueueExample() {
                     
                     {task.error && (
                       <span style={{ fontSize: '12px', color: '#dc3545' }}>
-                        Error: {task.error}
+                        Error: {task.error.message}
                       </span>
                     )}
                     
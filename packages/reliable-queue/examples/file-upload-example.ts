@@ -1,10 +1,11 @@
-import { ReliableQueue, TaskStatus } from '../src';
+import { ReliableQueue, TaskStatus, IndexedDBStorageAdapter } from '../src';
 
 // Example: File Upload Queue System
 interface FileUploadData {
   id: string;
   fileName: string;
   fileSize: number;
+  file?: File;
   uploadUrl: string;
   metadata?: {
     userId: string;
@@ -20,17 +21,22 @@ const uploadQueue = new ReliableQueue<FileUploadData>({
   exponentialBackoff: true,
   persistent: true,
   storageKey: 'file-upload-queue',
+  // IndexedDB writes one record per task and can store the File itself
+  storage: new IndexedDBStorageAdapter({ databaseName: 'file-uploads' }),
   concurrency: 2, // Upload 2 files concurrently
 });
 
 // Set up the processor for file uploads
-uploadQueue.setProcessor(async (data) => {
+uploadQueue.setProcessor(async (data, task, { signal }) => {
   console.log('Uploading file:', data.fileName);
   
   // Simulate file upload API call
   const formData = new FormData();
   formData.append('fileName', data.fileName);
   formData.append('fileSize', data.fileSize.toString());
+  if (data.file) {
+    formData.append('file', data.file);
+  }
   
   if (data.metadata) {
     formData.append('metadata', JSON.stringify(data.metadata));
@@ -39,6 +45,7 @@ uploadQueue.setProcessor(async (data) => {
   const response = await fetch(data.uploadUrl, {
     method: 'POST',
     body: formData,
+    signal, // Aborts the upload if the task is cancelled
   });
 
   if (!response.ok) {
@@ -71,6 +78,10 @@ export function retryFailedUpload(uploadId: string) {
   return uploadQueue.retry(uploadId);
 }
 
+export function cancelUpload(uploadId: string) {
+  return uploadQueue.cancel(uploadId);
+}
+
 export function removeUpload(uploadId: string) {
   return uploadQueue.remove(uploadId);
 }
@@ -34,10 +34,42 @@ export default [
     ],
     external: ['react'],
   },
+  // Node.js build
+  {
+    input: 'src/node.ts',
+    output: [
+      {
+        file: 'dist/node.js',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/node.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      resolve({
+        preferBuiltins: true,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        exclude: ['**/*.test.ts', '**/*.test.tsx'],
+      }),
+    ],
+    external: ['fs', 'path'],
+  },
   // Type definitions
   {
     input: 'dist/index.d.ts',
     output: [{ file: 'dist/index.d.ts', format: 'esm' }],
     plugins: [dts()],
   },
+  {
+    input: 'dist/node.d.ts',
+    output: [{ file: 'dist/node.d.ts', format: 'esm' }],
+    plugins: [dts()],
+  },
 ];
@@ -1,12 +1,12 @@
 import { ReliableQueue } from './ReliableQueue';
-import { QueueConfig } from './types';
+import { QueueConfig, TaskTypeMap } from './types';
 
 /**
  * Singleton queue manager for global queue instances
  */
 export class QueueManager {
   private static instance: QueueManager;
-  private queues = new Map<string, ReliableQueue<any>>();
+  private queues = new Map<string, ReliableQueue<any, any, any>>();
 
   private constructor() {}
 
@@ -23,12 +23,15 @@ export class QueueManager {
   /**
    * Create or get a named queue
    */
-  createQueue<T = any>(name: string, config?: QueueConfig): ReliableQueue<T> {
+  createQueue<T = any, R = any, M extends TaskTypeMap = TaskTypeMap>(
+    name: string,
+    config?: QueueConfig
+  ): ReliableQueue<T, R, M> {
     if (this.queues.has(name)) {
-      return this.queues.get(name) as ReliableQueue<T>;
+      return this.queues.get(name) as ReliableQueue<T, R, M>;
     }
 
-    const queue = new ReliableQueue<T>({
+    const queue = new ReliableQueue<T, R, M>({
       ...config,
       storageKey: config?.storageKey || `reliable-queue-${name}`,
     });
@@ -40,8 +43,8 @@ export class QueueManager {
   /**
    * Get an existing queue by name
    */
-  getQueue<T = any>(name: string): ReliableQueue<T> | undefined {
-    return this.queues.get(name) as ReliableQueue<T> | undefined;
+  getQueue<T = any, R = any, M extends TaskTypeMap = TaskTypeMap>(name: string): ReliableQueue<T, R, M> | undefined {
+    return this.queues.get(name) as ReliableQueue<T, R, M> | undefined;
   }
 
   /**
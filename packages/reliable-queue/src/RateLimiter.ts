@@ -0,0 +1,89 @@
+import { RateLimitOptions, RateLimitState, RateLimitWindow } from './types';
+
+/**
+ * Sliding-window rate limiter counting task starts, either across the whole
+ * queue or per group key
+ */
+export class RateLimiter {
+  private options: RateLimitOptions;
+  private windows = new Map<string | undefined, number[]>();
+
+  constructor(options: RateLimitOptions) {
+    if (!(options.max > 0) || !(options.interval > 0)) {
+      throw new Error('Rate limit max and interval must be positive numbers');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Whether a task of the given group may start at `now`
+   */
+  canStart(groupKey: string | undefined, now: number): boolean {
+    return this.getStarts(this.keyFor(groupKey), now).length < this.options.max;
+  }
+
+  /**
+   * Record that a task of the given group started at `now`
+   */
+  record(groupKey: string | undefined, now: number): void {
+    const key = this.keyFor(groupKey);
+    this.windows.set(key, [...this.getStarts(key, now), now]);
+  }
+
+  /**
+   * Earliest time a task of the given group may start
+   */
+  nextAvailableAt(groupKey: string | undefined, now: number): number {
+    const starts = this.getStarts(this.keyFor(groupKey), now);
+    if (starts.length < this.options.max) return now;
+
+    return starts[starts.length - this.options.max] + this.options.interval;
+  }
+
+  /**
+   * Current state of the limiter
+   */
+  getState(now: number): RateLimitState {
+    const state: RateLimitState = {
+      max: this.options.max,
+      interval: this.options.interval,
+      ...this.getWindow(undefined, now),
+    };
+
+    if (this.options.perGroup) {
+      state.groups = {};
+      this.windows.forEach((_, key) => {
+        if (key !== undefined) {
+          state.groups![key] = this.getWindow(key, now);
+        }
+      });
+    }
+
+    return state;
+  }
+
+  private getWindow(key: string | undefined, now: number): RateLimitWindow {
+    const remaining = Math.max(0, this.options.max - this.getStarts(key, now).length);
+    return remaining > 0 ? { remaining } : { remaining, resetAt: this.nextAvailableAt(key, now) };
+  }
+
+  /**
+   * Get the starts within the window ending at `now`, dropping older ones
+   */
+  private getStarts(key: string | undefined, now: number): number[] {
+    const starts = this.windows.get(key);
+    if (!starts) return [];
+
+    const recent = starts.filter(startedAt => startedAt > now - this.options.interval);
+    if (recent.length === 0) {
+      this.windows.delete(key);
+    } else if (recent.length !== starts.length) {
+      this.windows.set(key, recent);
+    }
+    return recent;
+  }
+
+  private keyFor(groupKey: string | undefined): string | undefined {
+    return this.options.perGroup ? groupKey : undefined;
+  }
+}
@@ -2,64 +2,185 @@ import {
   QueueConfig,
   QueuedTask,
   TaskProcessor,
+  BatchTaskProcessor,
+  BatchOptions,
   QueueEvents,
   QueueStats,
   TaskStatus,
   AddTaskOptions,
+  TypedAddTaskOptions,
+  QueueStorage,
+  ScheduleOptions,
+  TaskSchedule,
+  AttemptOutcome,
+  SerializedError,
+  TaskTypeMap,
+  TaskTypeOptions,
+  RetentionPolicy,
+  RetryDecision,
 } from './types';
+import {
+  CancelledError,
+  DependencyError,
+  ExpiredError,
+  QueueFullError,
+  TimeoutError,
+  UnrecoverableError,
+} from './errors';
+import { getNextCronDate, parseCron } from './cron';
 import {
   generateId,
-  calculateRetryDelay,
-  sleep,
-  isBrowser,
-  safeJsonParse,
-  safeJsonStringify,
+  calculateBackoff,
+  serializeError,
+  deserializeError,
 } from './utils';
+import { LocalStorageAdapter } from './storage';
+import { QueueManager } from './QueueManager';
+import { RateLimiter } from './RateLimiter';
+
+/**
+ * Queue configuration with defaults applied (optional hooks stay optional)
+ */
+type ResolvedQueueConfig = Required<Omit<QueueConfig, OptionalConfigKey>> &
+  Pick<QueueConfig, OptionalConfigKey>;
+
+/**
+ * Config options without a default value
+ */
+type OptionalConfigKey =
+  | 'deadLetterQueue'
+  | 'retryPolicy'
+  | 'backoff'
+  | 'serializeError'
+  | 'rateLimit'
+  | 'maxSize'
+  | 'retention';
 
 /**
  * Default queue configuration
  */
-const DEFAULT_CONFIG: Required<QueueConfig> = {
+const DEFAULT_CONFIG: ResolvedQueueConfig = {
   maxRetries: 3,
   retryDelay: 1000,
   exponentialBackoff: true,
   maxRetryDelay: 30000,
   concurrency: 1,
+  groupConcurrency: 1,
+  timeout: 0,
+  autoStart: true,
   persistent: false,
   storageKey: 'reliable-queue',
+  attemptHistoryLimit: 10,
+  dedupePolicy: 'reject',
+  dedupeTtl: 0,
+  overflowPolicy: 'throw',
+  ttl: 0,
+  storage: new LocalStorageAdapter(),
 };
 
+/**
+ * Longest delay a single timer can be armed for (setTimeout overflows above it)
+ */
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Number of ready tasks fetched per query from storage that indexes them
+ */
+const READY_TASK_QUERY_LIMIT = 100;
+
+/**
+ * Pending tasks that are due, as found by the storage's index, in processing order
+ */
+interface ReadyTasks<T, R> {
+  tasks: QueuedTask<T, R>[];
+  /** Whether these are all the ready tasks, rather than the first page of them */
+  complete: boolean;
+}
+
+/**
+ * A registered task type
+ */
+interface TaskTypeRegistration<R> {
+  handler: TaskProcessor<any, R>;
+  options: TaskTypeOptions;
+}
+
 /**
  * A reliable queue system with retry logic, status tracking, and event subscriptions
+ *
+ * `T` is the payload of tasks handled by the processor, `R` the result type
+ * and `M` maps registered task type names to their payload types.
  */
-export class ReliableQueue<T = any> {
-  private config: Required<QueueConfig>;
-  private tasks: QueuedTask<T>[] = [];
-  private processor?: TaskProcessor<T>;
+export class ReliableQueue<T = any, R = any, M extends TaskTypeMap = TaskTypeMap> {
+  private config: ResolvedQueueConfig;
+  /** Identifies this queue as the source of dead-lettered tasks */
+  private sourceId: string;
+  private tasks: QueuedTask<T, R>[] = [];
+  private schedules = new Map<string, TaskSchedule<T>>();
+  private processor?: TaskProcessor<T, R>;
+  private batchProcessor?: { process: BatchTaskProcessor<T, R>; options: BatchOptions };
+  private batchDueAt?: number;
+  private taskTypes = new Map<string, TaskTypeRegistration<R>>();
+  private groupTurns = new Map<string | undefined, number>();
+  private turn = 0;
+  private rateLimiter?: RateLimiter;
   private isProcessing = false;
   private processingCount = 0;
-  private subscribers = new Map<keyof QueueEvents<T>, Set<Function>>();
+  private paused: boolean;
+  private waiters: { isSettled: () => boolean; resolve: () => void }[] = [];
+  private wakeUpTimer?: ReturnType<typeof setTimeout>;
+  private wakeUpAt?: number;
+  private abortControllers = new Map<string, AbortController>();
+  private completedDedupeKeys = new Map<string, { taskId: string; expiresAt: number }>();
+  private subscribers = new Map<keyof QueueEvents<T, R>, Set<Function>>();
+  private isLoaded: boolean;
+  private loading: Promise<void>;
+  private pendingWrites: Promise<void> = Promise.resolve();
 
   constructor(config: QueueConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    // Persistent queues keep their identity across reloads through their storage key
+    this.sourceId = this.config.persistent ? this.config.storageKey : generateId();
+    this.rateLimiter = this.config.rateLimit ? new RateLimiter(this.config.rateLimit) : undefined;
     this.initializeSubscribers();
     
-    if (this.config.persistent) {
-      this.loadFromStorage();
-    }
+    this.paused = !this.config.autoStart;
+    this.isLoaded = !this.config.persistent;
+    this.loading = this.config.persistent ? this.loadFromStorage() : Promise.resolve();
+  }
+
+  /**
+   * Resolve once persisted tasks have been loaded from storage
+   */
+  ready(): Promise<void> {
+    return this.loading;
+  }
+
+  /**
+   * Resolve once all pending storage writes have settled
+   */
+  flush(): Promise<void> {
+    return this.pendingWrites;
   }
 
   /**
    * Initialize event subscriber sets
    */
   private initializeSubscribers(): void {
-    const events: (keyof QueueEvents<T>)[] = [
+    const events: (keyof QueueEvents<T, R>)[] = [
       'taskAdded',
       'taskStarted',
       'taskCompleted',
       'taskFailed',
+      'taskDeadLettered',
+      'taskAttempted',
       'taskRetried',
+      'taskCancelled',
+      'taskDropped',
+      'taskExpired',
       'queueUpdated',
+      'queuePaused',
+      'queueResumed',
     ];
 
     events.forEach(event => {
@@ -70,31 +191,318 @@ export class ReliableQueue<T = any> {
   /**
    * Set the task processor function
    */
-  setProcessor(processor: TaskProcessor<T>): void {
+  setProcessor(processor: TaskProcessor<T, R>): void {
     this.processor = processor;
+    this.batchProcessor = undefined;
+    this.processQueue();
+  }
+
+  /**
+   * Set a batch processor, replacing the task processor.
+   *
+   * Tasks without a type are then handed over in batches of up to
+   * `options.size`. A batch that isn't full starts once its first task has
+   * waited `options.wait` milliseconds. Each batch occupies one concurrency
+   * slot, and tasks the batch processor fails are retried individually.
+   */
+  setBatchProcessor(processor: BatchTaskProcessor<T, R>, options: BatchOptions): void {
+    if (!Number.isInteger(options.size) || options.size < 1) {
+      throw new Error('Batch size must be a positive integer');
+    }
+
+    this.batchProcessor = { process: processor, options };
+    this.processor = undefined;
+    this.batchDueAt = undefined;
+    this.processQueue();
+  }
+
+  /**
+   * Register the handler and settings for a named task type.
+   *
+   * Tasks added with `add(data, { type })` are processed by their type's
+   * handler instead of the processor. Registering a type again replaces it.
+   */
+  register<K extends keyof M & string>(
+    type: K,
+    handler: TaskProcessor<M[K], R>,
+    options: TaskTypeOptions = {}
+  ): void {
+    this.taskTypes.set(type, { handler, options });
+    this.processQueue();
+  }
+
+  /**
+   * Whether processing is currently paused
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Stop starting new tasks. Tasks already processing keep running.
+   */
+  pause(): void {
+    if (this.paused) return;
+
+    this.paused = true;
+    this.scheduleWakeUp();
+    this.emit('queuePaused');
+  }
+
+  /**
+   * Resume processing after a pause
+   */
+  resume(): void {
+    if (!this.paused) return;
+
+    this.paused = false;
+    this.emit('queueResumed');
+    this.processQueue();
+  }
+
+  /**
+   * Pause the queue and wait for in-flight tasks to settle
+   */
+  drain(): Promise<void> {
+    this.pause();
+    return this.waitFor(() => this.processingCount === 0);
+  }
+
+  /**
+   * Resolve once no tasks are waiting to be started
+   */
+  onEmpty(): Promise<void> {
+    return this.waitFor(() => !this.hasPendingTasks());
+  }
+
+  /**
+   * Resolve once no tasks are waiting and none are processing
+   */
+  onIdle(): Promise<void> {
+    return this.waitFor(() => !this.hasPendingTasks() && this.processingCount === 0);
+  }
+
+  /**
+   * Add a task to the queue, either for the processor or for a registered task type.
+   *
+   * Returns the task's ID. For a duplicate `dedupeKey` that is the ID of the
+   * existing task, unless the dedupe policy adds the new task anyway.
+   */
+  add<K extends keyof M & string>(data: M[K], options: TypedAddTaskOptions<K>): string;
+  add(data: T, options?: AddTaskOptions): string;
+  add(data: unknown, options: Partial<TypedAddTaskOptions> = {}): string {
+    const { type } = options;
+
+    if (type !== undefined && !this.taskTypes.has(type)) {
+      throw new Error(`Task type "${type}" is not registered`);
+    }
+
+    if (options.id !== undefined && this.tasks.some(task => task.id === options.id)) {
+      throw new Error(`Task ${options.id} already exists`);
+    }
+
+    if (options.dedupeKey !== undefined) {
+      const existingId = this.deduplicate(data as T, options);
+      if (existingId !== undefined) return existingId;
+    }
+
+    const task = this.createTask(data as T, options);
+    task.type = type;
+
+    if (task.dependsOn) {
+      this.assertValidDependencies(task.id, task.dependsOn);
+    }
+
+    if (this.isFull() && !this.makeRoom(task)) {
+      return task.id;
+    }
+
+    return this.insertTask(task);
+  }
+
+  /**
+   * Add a task once the queue has room for it, instead of applying the overflow policy
+   */
+  addWithBackpressure<K extends keyof M & string>(data: M[K], options: TypedAddTaskOptions<K>): Promise<string>;
+  addWithBackpressure(data: T, options?: AddTaskOptions): Promise<string>;
+  async addWithBackpressure(data: unknown, options?: Partial<TypedAddTaskOptions>): Promise<string> {
+    // Other waiters may fill the room again before this one resumes
+    while (this.isFull()) {
+      await this.waitFor(() => !this.isFull());
+    }
+
+    return this.add(data as T, options);
+  }
+
+  /**
+   * Whether the queue holds `maxSize` unfinished tasks
+   */
+  private isFull(): boolean {
+    const { maxSize } = this.config;
+    if (maxSize === undefined) return false;
+
+    const unfinished = this.tasks.filter(task =>
+      task.status === TaskStatus.PENDING ||
+      task.status === TaskStatus.BLOCKED ||
+      task.status === TaskStatus.PROCESSING
+    );
+    return unfinished.length >= maxSize;
+  }
+
+  /**
+   * Apply the overflow policy for a new task, returning whether it may still be added
+   */
+  private makeRoom(task: QueuedTask<T, R>): boolean {
+    const { overflowPolicy, maxSize } = this.config;
+    if (overflowPolicy === 'throw') {
+      throw new QueueFullError(maxSize!);
+    }
+
+    // Tasks that already started are never dropped
+    const waiting = this.tasks
+      .filter(existing => this.isWaiting(existing))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    let dropped: QueuedTask<T, R> | undefined;
+    if (overflowPolicy === 'drop-oldest') {
+      dropped = waiting[0];
+    } else if (overflowPolicy === 'drop-lowest-priority') {
+      dropped = [...waiting, task].reduce((lowest, candidate) =>
+        (candidate.priority || 0) <= (lowest.priority || 0) ? candidate : lowest
+      );
+    }
+
+    if (!dropped || dropped === task) {
+      this.emit('taskDropped', task);
+      return false;
+    }
+
+    this.tasks = this.tasks.filter(existing => existing !== dropped);
+    this.removeFromStorage([dropped.id]);
+    this.emit('taskDropped', dropped);
+    this.resolveDependencies();
+    return true;
+  }
+
+  /**
+   * Apply the dedupe policy to a task added with a `dedupeKey`, returning the
+   * ID of the existing task it was merged into, if any
+   */
+  private deduplicate(data: T, options: AddTaskOptions): string | undefined {
+    const key = options.dedupeKey!;
+    const policy = options.dedupePolicy ?? this.config.dedupePolicy;
+    const now = Date.now();
+
+    const waiting = this.tasks.find(task => task.dedupeKey === key && this.isWaiting(task));
+
+    if (waiting) {
+      if (policy === 'reject') return waiting.id;
+
+      waiting.data = data;
+      waiting.updatedAt = now;
+      if (policy === 'extend') {
+        waiting.delay = options.delay;
+        waiting.processAt = options.delay ? now + options.delay : undefined;
+      }
+
+      this.saveTaskToStorage(waiting);
+      this.scheduleWakeUp();
+      this.emitQueueUpdated();
+      return waiting.id;
+    }
+
+    // Processing and recently completed tasks only make way for the latest payload
+    if (policy === 'keep-latest') return undefined;
+
+    const processing = this.tasks.find(task => task.dedupeKey === key && task.status === TaskStatus.PROCESSING);
+    if (processing) return processing.id;
+
+    const completed = this.completedDedupeKeys.get(key);
+    if (completed && completed.expiresAt > now) return completed.taskId;
+
+    this.completedDedupeKeys.delete(key);
+    return undefined;
+  }
+
+  /**
+   * Remember the key of a completed task for its dedupe TTL
+   */
+  private rememberDedupeKey(task: QueuedTask<T, R>): void {
+    if (task.dedupeKey === undefined) return;
+
+    const ttl = task.dedupeTtl ?? this.config.dedupeTtl;
+    const expiresAt = task.updatedAt + ttl;
+    if (ttl > 0 && expiresAt > Date.now()) {
+      this.completedDedupeKeys.set(task.dedupeKey, { taskId: task.id, expiresAt });
+    }
   }
 
   /**
-   * Add a task to the queue
+   * Build a new pending task from its data and options
    */
-  add(data: T, options: AddTaskOptions = {}): string {
-    const task: QueuedTask<T> = {
+  private createTask(data: T, options: AddTaskOptions): QueuedTask<T, R> {
+    const dependsOn = options.dependsOn && options.dependsOn.length > 0 ? [...options.dependsOn] : undefined;
+    const ttl = options.ttl ?? this.config.ttl;
+
+    return {
       id: options.id || generateId(),
       data,
-      status: TaskStatus.PENDING,
+      status: dependsOn ? TaskStatus.BLOCKED : TaskStatus.PENDING,
       retryCount: 0,
       createdAt: Date.now(),
       updatedAt: Date.now(),
       priority: options.priority || 0,
       delay: options.delay,
       processAt: options.delay ? Date.now() + options.delay : undefined,
+      timeout: options.timeout,
+      expiresAt: options.expiresAt ?? (ttl > 0 ? Date.now() + ttl : undefined),
+      backoff: options.backoff,
+      groupKey: options.groupKey,
+      dependsOn,
+      onDependencyFailure: options.onDependencyFailure,
+      dedupeKey: options.dedupeKey,
+      dedupeTtl: options.dedupeTtl,
     };
+  }
+
+  /**
+   * Check that a new task's dependencies exist and don't lead back to it
+   */
+  private assertValidDependencies(taskId: string, dependsOn: string[]): void {
+    const pending = [...dependsOn];
+    const visited = new Set<string>();
+
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (id === taskId) {
+        throw new Error(`Task ${taskId} has a circular dependency`);
+      }
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const dependency = this.tasks.find(task => task.id === id);
+      dependency?.dependsOn?.forEach(parentId => pending.push(parentId));
+    }
+
+    // Stored tasks aren't known until loading finished
+    if (!this.isLoaded) return;
+
+    const unknown = dependsOn.find(id => !this.tasks.some(task => task.id === id));
+    if (unknown !== undefined) {
+      throw new Error(`Task ${taskId} depends on unknown task ${unknown}`);
+    }
+  }
 
+  /**
+   * Insert a task into the queue and start processing
+   */
+  private insertTask(task: QueuedTask<T, R>): string {
     this.tasks.push(task);
     this.sortTasksByPriority();
-    this.saveToStorage();
+    this.saveTaskToStorage(task);
     this.emit('taskAdded', task);
-    this.emit('queueUpdated', [...this.tasks]);
+    this.resolveDependencies();
+    this.emitQueueUpdated();
     
     // Start processing if not already running
     this.processQueue();
@@ -102,6 +510,150 @@ export class ReliableQueue<T = any> {
     return task.id;
   }
 
+  /**
+   * Add a task and wait for it to finish.
+   *
+   * Resolves with the task's result when it completes, and rejects with the final error if it
+   * fails, a `CancelledError` if it is cancelled, an `ExpiredError` if it expires or a
+   * `QueueFullError` if it is dropped.
+   */
+  addAndWait<K extends keyof M & string>(data: M[K], options: TypedAddTaskOptions<K>): Promise<R>;
+  addAndWait(data: T, options?: AddTaskOptions): Promise<R>;
+  addAndWait(data: unknown, options?: Partial<TypedAddTaskOptions>): Promise<R> {
+    return new Promise((resolve, reject) => {
+      let taskId: string | undefined;
+      const droppedWhileAdding: string[] = [];
+
+      const unsubscribers = [
+        this.on('taskCompleted', (task, result) => {
+          if (task.id !== taskId) return;
+          unsubscribe();
+          resolve(result);
+        }),
+        this.on('taskFailed', (task, error) => {
+          if (task.id !== taskId) return;
+          unsubscribe();
+          reject(error);
+        }),
+        this.on('taskCancelled', task => {
+          if (task.id !== taskId) return;
+          unsubscribe();
+          reject(new CancelledError());
+        }),
+        this.on('taskExpired', task => {
+          if (task.id !== taskId) return;
+          unsubscribe();
+          reject(new ExpiredError(task.expiresAt!));
+        }),
+        this.on('taskDropped', task => {
+          if (taskId === undefined) droppedWhileAdding.push(task.id);
+          if (task.id !== taskId) return;
+          unsubscribe();
+          reject(new QueueFullError(this.config.maxSize!));
+        }),
+      ];
+      const unsubscribe = () => unsubscribers.forEach(unsubscriber => unsubscriber());
+
+      try {
+        taskId = this.add(data as T, options);
+      } catch (error) {
+        unsubscribe();
+        reject(error);
+        return;
+      }
+
+      // The new task may be dropped before its ID is known
+      if (droppedWhileAdding.includes(taskId)) {
+        unsubscribe();
+        reject(new QueueFullError(this.config.maxSize!));
+        return;
+      }
+
+      // The task may have settled while it was added, e.g. as a duplicate of a completed task
+      const task = this.getTask(taskId);
+      if (!task || task.status === TaskStatus.COMPLETED) {
+        resolve(task?.result as R);
+      } else if (task.status === TaskStatus.FAILED) {
+        reject(deserializeError(task.error!));
+      } else if (task.status === TaskStatus.CANCELLED) {
+        reject(new CancelledError());
+      } else if (task.status === TaskStatus.EXPIRED) {
+        reject(new ExpiredError(task.expiresAt!));
+      } else {
+        return;
+      }
+      unsubscribe();
+    });
+  }
+
+  /**
+   * Schedule a recurring task, enqueued every `every` milliseconds or
+   * whenever the `cron` expression is due.
+   *
+   * Scheduling again with the same ID and timing keeps the next occurrence,
+   * so schedules can safely be re-declared on every start-up.
+   */
+  schedule(data: T, options: ScheduleOptions): string {
+    const { id, every, cron, timezone, ...taskOptions } = options;
+
+    if ((every === undefined) === (cron === undefined)) {
+      throw new Error('A schedule needs exactly one of "every" or "cron"');
+    }
+    if (every !== undefined && !(every > 0)) {
+      throw new Error('Schedule interval must be a positive number of milliseconds');
+    }
+    if (cron !== undefined) {
+      // Validates the expression and timezone
+      getNextCronDate(parseCron(cron), Date.now(), timezone);
+    }
+
+    const now = Date.now();
+    const scheduleId = id || generateId();
+    const existing = this.schedules.get(scheduleId);
+    const schedule: TaskSchedule<T> = {
+      id: scheduleId,
+      data,
+      every,
+      cron,
+      timezone,
+      taskOptions,
+      nextRunAt: 0,
+      createdAt: existing?.createdAt || now,
+    };
+
+    if (existing && this.isSameTiming(existing, schedule)) {
+      schedule.nextRunAt = existing.nextRunAt;
+      schedule.lastRunAt = existing.lastRunAt;
+    } else {
+      schedule.nextRunAt = this.getNextRunAt(schedule, now);
+    }
+
+    this.schedules.set(scheduleId, schedule);
+    this.saveSchedulesToStorage();
+    this.processQueue();
+
+    return scheduleId;
+  }
+
+  /**
+   * Remove a recurring task schedule. Occurrences already enqueued are kept.
+   */
+  unschedule(scheduleId: string): boolean {
+    if (!this.schedules.delete(scheduleId)) return false;
+
+    this.saveSchedulesToStorage();
+    this.scheduleWakeUp();
+
+    return true;
+  }
+
+  /**
+   * Get all recurring task schedules
+   */
+  getSchedules(): TaskSchedule<T>[] {
+    return Array.from(this.schedules.values()).map(schedule => ({ ...schedule }));
+  }
+
   /**
    * Remove a task from the queue
    */
@@ -117,12 +669,43 @@ export class ReliableQueue<T = any> {
     }
 
     this.tasks.splice(index, 1);
-    this.saveToStorage();
-    this.emit('queueUpdated', [...this.tasks]);
+    this.removeFromStorage([task.id]);
+    this.resolveDependencies();
+    this.scheduleWakeUp();
+    this.emitQueueUpdated();
     
     return true;
   }
 
+  /**
+   * Cancel a pending or processing task
+   *
+   * Processing tasks have their signal aborted and stop occupying a
+   * concurrency slot straight away. A task cancelled while its batch is
+   * processing is left out of the batch's results instead.
+   */
+  cancel(taskId: string): boolean {
+    const task = this.tasks.find(t => t.id === taskId);
+    const cancellable = [TaskStatus.PENDING, TaskStatus.BLOCKED, TaskStatus.PROCESSING];
+    if (!task || !cancellable.includes(task.status)) {
+      return false;
+    }
+
+    task.status = TaskStatus.CANCELLED;
+    task.updatedAt = Date.now();
+    this.finishAttempt(task, 'cancelled');
+
+    this.saveTaskToStorage(task);
+    this.scheduleWakeUp();
+    this.emit('taskCancelled', task);
+    this.resolveDependencies();
+    this.emitQueueUpdated();
+
+    this.abortControllers.get(task.id)?.abort(new CancelledError());
+
+    return true;
+  }
+
   /**
    * Retry a failed task
    */
@@ -132,15 +715,17 @@ export class ReliableQueue<T = any> {
       return false;
     }
 
-    task.status = TaskStatus.PENDING;
+    task.status = task.dependsOn ? TaskStatus.BLOCKED : TaskStatus.PENDING;
     task.retryCount = 0;
     task.error = undefined;
+    task.backoffDelay = undefined;
     task.updatedAt = Date.now();
     
     this.sortTasksByPriority();
-    this.saveToStorage();
+    this.saveTaskToStorage(task);
     this.emit('taskRetried', task);
-    this.emit('queueUpdated', [...this.tasks]);
+    this.resolveDependencies();
+    this.emitQueueUpdated();
     
     this.processQueue();
     
@@ -154,17 +739,19 @@ export class ReliableQueue<T = any> {
     const failedTasks = this.tasks.filter(task => task.status === TaskStatus.FAILED);
     
     failedTasks.forEach(task => {
-      task.status = TaskStatus.PENDING;
+      task.status = task.dependsOn ? TaskStatus.BLOCKED : TaskStatus.PENDING;
       task.retryCount = 0;
       task.error = undefined;
+      task.backoffDelay = undefined;
       task.updatedAt = Date.now();
+      this.saveTaskToStorage(task);
       this.emit('taskRetried', task);
     });
 
     if (failedTasks.length > 0) {
       this.sortTasksByPriority();
-      this.saveToStorage();
-      this.emit('queueUpdated', [...this.tasks]);
+      this.resolveDependencies();
+      this.emitQueueUpdated();
       this.processQueue();
     }
 
@@ -172,15 +759,69 @@ export class ReliableQueue<T = any> {
   }
 
   /**
-   * Clear all completed tasks
+   * Move this queue's tasks back from its dead-letter queue and retry them.
+   *
+   * Tasks are matched by the queue they failed in (by storage key for
+   * persistent queues, otherwise by instance); pass task IDs to redrive only
+   * those. Returns the number of tasks moved back.
+   */
+  redrive(taskIds?: string[]): number {
+    const deadLetterQueue = this.getDeadLetterQueue();
+    if (!deadLetterQueue) return 0;
+
+    const redriven = deadLetterQueue.tasks.filter(task =>
+      task.deadLetter !== undefined &&
+      // Tasks dead-lettered by older versions only recorded the storage key
+      (task.deadLetter.sourceId ?? task.deadLetter.sourceQueue) === this.sourceId &&
+      task.status !== TaskStatus.PROCESSING &&
+      (!taskIds || taskIds.includes(task.id))
+    );
+    if (redriven.length === 0) return 0;
+
+    deadLetterQueue.tasks = deadLetterQueue.tasks.filter(task => !redriven.includes(task));
+    deadLetterQueue.removeFromStorage(redriven.map(task => task.id));
+    deadLetterQueue.scheduleWakeUp();
+    deadLetterQueue.emitQueueUpdated();
+
+    redriven.forEach(deadTask => {
+      const { deadLetter: _deadLetter, ...rest } = deadTask;
+      const task: QueuedTask<T, R> = {
+        ...rest,
+        status: TaskStatus.PENDING,
+        retryCount: 0,
+        error: undefined,
+        backoffDelay: undefined,
+        processAt: undefined,
+        updatedAt: Date.now(),
+      };
+
+      this.tasks = this.tasks.filter(existing => existing.id !== task.id);
+      this.tasks.push(task);
+      this.saveTaskToStorage(task);
+      this.emit('taskRetried', task);
+    });
+
+    this.sortTasksByPriority();
+    this.emitQueueUpdated();
+    this.processQueue();
+
+    return redriven.length;
+  }
+
+  /**
+   * Clear all completed tasks, except those blocked tasks still depend on
    */
   clearCompleted(): number {
-    const completedCount = this.tasks.filter(task => task.status === TaskStatus.COMPLETED).length;
-    this.tasks = this.tasks.filter(task => task.status !== TaskStatus.COMPLETED);
+    const dependedOn = this.getDependedOnIds();
+    const completed = this.tasks.filter(
+      task => task.status === TaskStatus.COMPLETED && !dependedOn.has(task.id)
+    );
+    const completedCount = completed.length;
+    this.tasks = this.tasks.filter(task => !completed.includes(task));
     
     if (completedCount > 0) {
-      this.saveToStorage();
-      this.emit('queueUpdated', [...this.tasks]);
+      this.removeFromStorage(completed.map(task => task.id));
+      this.emitQueueUpdated();
     }
     
     return completedCount;
@@ -190,12 +831,14 @@ export class ReliableQueue<T = any> {
    * Clear all failed tasks
    */
   clearFailed(): number {
-    const failedCount = this.tasks.filter(task => task.status === TaskStatus.FAILED).length;
+    const failed = this.tasks.filter(task => task.status === TaskStatus.FAILED);
+    const failedCount = failed.length;
     this.tasks = this.tasks.filter(task => task.status !== TaskStatus.FAILED);
     
     if (failedCount > 0) {
-      this.saveToStorage();
-      this.emit('queueUpdated', [...this.tasks]);
+      this.removeFromStorage(failed.map(task => task.id));
+      this.resolveDependencies();
+      this.emitQueueUpdated();
     }
     
     return failedCount;
@@ -206,22 +849,25 @@ export class ReliableQueue<T = any> {
    */
   clear(): void {
     // Don't clear tasks that are currently processing
+    const removed = this.tasks.filter(task => task.status !== TaskStatus.PROCESSING);
     this.tasks = this.tasks.filter(task => task.status === TaskStatus.PROCESSING);
-    this.saveToStorage();
-    this.emit('queueUpdated', [...this.tasks]);
+    this.removeFromStorage(removed.map(task => task.id));
+    this.resolveDependencies();
+    this.scheduleWakeUp();
+    this.emitQueueUpdated();
   }
 
   /**
    * Get all tasks
    */
-  getTasks(): QueuedTask<T>[] {
+  getTasks(): QueuedTask<T, R>[] {
     return [...this.tasks];
   }
 
   /**
    * Get a specific task by ID
    */
-  getTask(taskId: string): QueuedTask<T> | undefined {
+  getTask(taskId: string): QueuedTask<T, R> | undefined {
     return this.tasks.find(task => task.id === taskId);
   }
 
@@ -229,12 +875,15 @@ export class ReliableQueue<T = any> {
    * Get queue statistics
    */
   getStats(): QueueStats {
-    const stats = {
+    const stats: QueueStats = {
       total: this.tasks.length,
       pending: 0,
+      blocked: 0,
       processing: 0,
       completed: 0,
       failed: 0,
+      cancelled: 0,
+      expired: 0,
     };
 
     this.tasks.forEach(task => {
@@ -242,6 +891,9 @@ export class ReliableQueue<T = any> {
         case TaskStatus.PENDING:
           stats.pending++;
           break;
+        case TaskStatus.BLOCKED:
+          stats.blocked++;
+          break;
         case TaskStatus.PROCESSING:
           stats.processing++;
           break;
@@ -251,16 +903,26 @@ export class ReliableQueue<T = any> {
         case TaskStatus.FAILED:
           stats.failed++;
           break;
+        case TaskStatus.CANCELLED:
+          stats.cancelled++;
+          break;
+        case TaskStatus.EXPIRED:
+          stats.expired++;
+          break;
       }
     });
 
+    if (this.rateLimiter) {
+      stats.rateLimit = this.rateLimiter.getState(Date.now());
+    }
+
     return stats;
   }
 
   /**
    * Subscribe to queue events
    */
-  on<K extends keyof QueueEvents<T>>(event: K, callback: QueueEvents<T>[K]): () => void {
+  on<K extends keyof QueueEvents<T, R>>(event: K, callback: QueueEvents<T, R>[K]): () => void {
     const subscribers = this.subscribers.get(event);
     if (subscribers) {
       subscribers.add(callback);
@@ -278,7 +940,7 @@ export class ReliableQueue<T = any> {
   /**
    * Emit an event to all subscribers
    */
-  private emit<K extends keyof QueueEvents<T>>(event: K, ...args: Parameters<QueueEvents<T>[K]>): void {
+  private emit<K extends keyof QueueEvents<T, R>>(event: K, ...args: Parameters<QueueEvents<T, R>[K]>): void {
     const subscribers = this.subscribers.get(event);
     if (subscribers) {
       subscribers.forEach(callback => {
@@ -292,155 +954,1099 @@ export class ReliableQueue<T = any> {
   }
 
   /**
-   * Sort tasks by priority (higher priority first) and creation time
+   * Notify subscribers of a queue change and resolve any settled waiters
    */
-  private sortTasksByPriority(): void {
-    this.tasks.sort((a, b) => {
-      // First sort by priority (higher first)
-      if (a.priority !== b.priority) {
-        return (b.priority || 0) - (a.priority || 0);
-      }
-      // Then by creation time (older first)
-      return a.createdAt - b.createdAt;
-    });
+  private emitQueueUpdated(): void {
+    this.emit('queueUpdated', [...this.tasks]);
+    this.resolveWaiters();
   }
 
   /**
-   * Process the queue
+   * Return a promise that resolves once the given condition holds
    */
-  private async processQueue(): Promise<void> {
-    if (!this.processor) {
-      return;
-    }
-
-    // Process tasks concurrently up to the limit
-    while (this.processingCount < this.config.concurrency) {
-      const task = this.getNextTask();
-      if (!task) break;
+  private waitFor(isSettled: () => boolean): Promise<void> {
+    if (isSettled()) return Promise.resolve();
 
-      this.processTask(task);
-    }
+    return new Promise(resolve => {
+      this.waiters.push({ isSettled, resolve });
+    });
   }
 
   /**
-   * Get the next task to process
+   * Resolve waiters whose condition now holds
    */
-  private getNextTask(): QueuedTask<T> | undefined {
-    const now = Date.now();
-    
-    return this.tasks.find(task => {
-      if (task.status !== TaskStatus.PENDING) return false;
-      if (task.processAt && task.processAt > now) return false;
-      return true;
+  private resolveWaiters(): void {
+    this.waiters = this.waiters.filter(waiter => {
+      if (!waiter.isSettled()) return true;
+
+      waiter.resolve();
+      return false;
+    });
+  }
+
+  /**
+   * Whether a task is waiting to be started (pending or blocked)
+   */
+  private isWaiting(task: QueuedTask<T, R>): boolean {
+    return task.status === TaskStatus.PENDING || task.status === TaskStatus.BLOCKED;
+  }
+
+  /**
+   * Expire waiting tasks whose `expiresAt` has passed
+   */
+  private expireTasks(): void {
+    const now = Date.now();
+    const expired = this.tasks.filter(task =>
+      this.isWaiting(task) && task.expiresAt !== undefined && task.expiresAt <= now
+    );
+    if (expired.length === 0) return;
+
+    expired.forEach(task => this.expireTask(task));
+    this.resolveDependencies();
+    this.emitQueueUpdated();
+  }
+
+  /**
+   * Mark a task as expired and announce it
+   */
+  private expireTask(task: QueuedTask<T, R>): void {
+    task.status = TaskStatus.EXPIRED;
+    task.updatedAt = Date.now();
+
+    this.saveTaskToStorage(task);
+    this.emit('taskExpired', task);
+  }
+
+  /**
+   * Remove completed and failed tasks beyond their retention policy,
+   * returning whether any were removed
+   */
+  private applyRetention(): boolean {
+    const { retention } = this.config;
+    if (!retention) return false;
+
+    // Finished tasks that blocked tasks still depend on are kept
+    const dependedOn = this.getDependedOnIds();
+    const now = Date.now();
+    const removed = new Set(
+      [
+        ...this.getTasksBeyondRetention(TaskStatus.COMPLETED, retention.completed, now),
+        ...this.getTasksBeyondRetention(TaskStatus.FAILED, retention.failed, now),
+      ].filter(task => !dependedOn.has(task.id))
+    );
+    if (removed.size === 0) return false;
+
+    this.tasks = this.tasks.filter(task => !removed.has(task));
+    this.removeFromStorage(Array.from(removed, task => task.id));
+    return true;
+  }
+
+  /**
+   * Get the IDs of the tasks that blocked tasks still depend on
+   */
+  private getDependedOnIds(): Set<string> {
+    const dependedOn = new Set<string>();
+    this.tasks
+      .filter(task => task.status === TaskStatus.BLOCKED)
+      .forEach(task => task.dependsOn!.forEach(id => dependedOn.add(id)));
+    return dependedOn;
+  }
+
+  /**
+   * Get the tasks with the given finished status that their retention policy no longer keeps
+   */
+  private getTasksBeyondRetention(
+    status: TaskStatus,
+    policy: RetentionPolicy | undefined,
+    now: number
+  ): QueuedTask<T, R>[] {
+    if (!policy) return [];
+
+    const finished = this.tasks.filter(task => task.status === status);
+    if (policy === 'remove') return finished;
+
+    const { count, age } = policy;
+    return finished
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .filter((task, index) =>
+        (count !== undefined && index >= count) ||
+        (age !== undefined && now - task.updatedAt >= age)
+      );
+  }
+
+  /**
+   * Get how long a finished task is kept, if its retention policy limits its age
+   */
+  private getRetentionAge(task: QueuedTask<T, R>): number | undefined {
+    const { retention } = this.config;
+    const policy = task.status === TaskStatus.COMPLETED
+      ? retention?.completed
+      : task.status === TaskStatus.FAILED ? retention?.failed : undefined;
+
+    return policy && policy !== 'remove' ? policy.age : undefined;
+  }
+
+  /**
+   * Whether any task is still waiting to be started
+   */
+  private hasPendingTasks(): boolean {
+    return this.tasks.some(task => this.isWaiting(task));
+  }
+
+  /**
+   * Unblock tasks whose dependencies all completed, and fail or skip tasks
+   * with a dependency that failed, was cancelled, expired or is gone
+   */
+  private resolveDependencies(): void {
+    // Stored dependencies aren't known until loading finished
+    if (!this.isLoaded) return;
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+
+      this.tasks.forEach(task => {
+        if (task.status !== TaskStatus.BLOCKED) return;
+
+        const dependencies = task.dependsOn!.map(id => this.tasks.find(dependency => dependency.id === id));
+        const failedIndex = dependencies.findIndex(dependency =>
+          !dependency ||
+          dependency.status === TaskStatus.FAILED ||
+          dependency.status === TaskStatus.CANCELLED ||
+          dependency.status === TaskStatus.EXPIRED
+        );
+
+        if (failedIndex !== -1) {
+          this.failDependent(task, task.dependsOn![failedIndex]);
+          changed = true;
+        } else if (dependencies.every(dependency => dependency!.status === TaskStatus.COMPLETED)) {
+          task.status = TaskStatus.PENDING;
+          task.parentResults = dependencies.reduce<Record<string, unknown>>((results, dependency) => {
+            results[dependency!.id] = dependency!.result;
+            return results;
+          }, {});
+          task.updatedAt = Date.now();
+          this.saveTaskToStorage(task);
+          changed = true;
+        }
+      });
+    }
+  }
+
+  /**
+   * Fail or skip a task whose dependency did not complete
+   */
+  private failDependent(task: QueuedTask<T, R>, dependencyId: string): void {
+    const error = new DependencyError(dependencyId);
+    task.updatedAt = Date.now();
+
+    if (task.onDependencyFailure === 'skip') {
+      task.status = TaskStatus.CANCELLED;
+      this.saveTaskToStorage(task);
+      this.emit('taskCancelled', task);
+      return;
+    }
+
+    task.status = TaskStatus.FAILED;
+    task.error = this.serializeError(error);
+    this.saveTaskToStorage(task);
+    this.emit('taskFailed', task, error);
+  }
+
+  /**
+   * Sort tasks by priority (higher priority first) and creation time
+   */
+  private sortTasksByPriority(): void {
+    this.tasks.sort((a, b) => {
+      // First sort by priority (higher first)
+      if (a.priority !== b.priority) {
+        return (b.priority || 0) - (a.priority || 0);
+      }
+      // Then by creation time (older first)
+      return a.createdAt - b.createdAt;
+    });
+  }
+
+  /**
+   * Process the queue
+   */
+  private async processQueue(): Promise<void> {
+    this.expireTasks();
+    if (this.applyRetention()) {
+      this.emitQueueUpdated();
+    }
+
+    if (this.paused) {
+      this.scheduleWakeUp();
+      return;
+    }
+
+    this.enqueueDueSchedules();
+
+    let readyTasks: ReadyTasks<T, R> | undefined;
+    if (this.canQueryReadyTasks()) {
+      readyTasks = await this.queryReadyTasks();
+      if (this.paused) {
+        this.scheduleWakeUp();
+        return;
+      }
+    }
+
+    // Process tasks concurrently up to the limit
+    let batchWaiting = false;
+    while (this.processingCount < this.config.concurrency) {
+      const task = this.getNextTask(candidate => !batchWaiting || candidate.type !== undefined, readyTasks);
+      if (!task) break;
+
+      if (task.type === undefined && this.batchProcessor) {
+        const batch = this.takeBatch(readyTasks);
+        if (batch.length > 0) {
+          this.processBatch(batch);
+        } else {
+          batchWaiting = true;
+        }
+        continue;
+      }
+
+      this.recordStart(task);
+      this.processTask(task);
+    }
+
+    this.scheduleWakeUp();
+  }
+
+  /**
+   * Whether the storage can find ready tasks through an index, sparing a scan
+   * over every task in memory
+   */
+  private canQueryReadyTasks(): boolean {
+    return this.config.persistent && this.isLoaded && this.config.storage.getReadyTasks !== undefined;
+  }
+
+  /**
+   * Query the storage's index for ready tasks, resolved to the tasks in memory.
+   * Returns undefined to scan memory instead if the query fails.
+   */
+  private async queryReadyTasks(): Promise<ReadyTasks<T, R> | undefined> {
+    try {
+      // Stored state lags behind memory until pending writes have settled
+      await this.pendingWrites;
+      const stored = await this.config.storage.getReadyTasks!(
+        this.config.storageKey,
+        Date.now(),
+        READY_TASK_QUERY_LIMIT
+      );
+
+      const tasksById = new Map(this.tasks.map(task => [task.id, task] as [string, QueuedTask<T, R>]));
+      const tasks = stored
+        .map(task => tasksById.get(task.id))
+        .filter((task): task is QueuedTask<T, R> => task !== undefined);
+
+      return { tasks, complete: stored.length < READY_TASK_QUERY_LIMIT };
+    } catch (error) {
+      console.error('Failed to query ready tasks from storage:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Enqueue an occurrence of every schedule that is due
+   */
+  private enqueueDueSchedules(): void {
+    // Stored schedules and occurrences aren't known until loading finished
+    if (!this.isLoaded) return;
+
+    const now = Date.now();
+    const due = Array.from(this.schedules.values()).filter(schedule => schedule.nextRunAt <= now);
+    if (due.length === 0) return;
+
+    due.forEach(schedule => {
+      const runAt = schedule.nextRunAt;
+
+      // Advance first so that re-entrant processing doesn't see it as due again.
+      // Missed occurrences collapse into this single run.
+      schedule.lastRunAt = runAt;
+      schedule.nextRunAt = this.getNextRunAt(schedule, now);
+
+      // Occurrence IDs are deterministic, so a run enqueued before a reload is not duplicated
+      const taskId = `${schedule.id}:${runAt}`;
+      if (this.tasks.some(task => task.id === taskId)) return;
+
+      const task = this.createTask(schedule.data, { ...schedule.taskOptions, id: taskId });
+      task.scheduleId = schedule.id;
+      this.insertTask(task);
+    });
+
+    this.saveSchedulesToStorage();
+  }
+
+  /**
+   * Get the first occurrence of a schedule after the given time
+   */
+  private getNextRunAt(schedule: TaskSchedule<T>, after: number): number {
+    if (schedule.cron !== undefined) {
+      return getNextCronDate(schedule.cron, after, schedule.timezone);
+    }
+
+    const every = schedule.every!;
+    const previous = schedule.lastRunAt ?? after;
+    return previous + Math.max(1, Math.ceil((after - previous + 1) / every)) * every;
+  }
+
+  /**
+   * Whether two schedules fire at the same times
+   */
+  private isSameTiming(a: TaskSchedule<T>, b: TaskSchedule<T>): boolean {
+    return a.every === b.every && a.cron === b.cron && a.timezone === b.timezone;
+  }
+
+  /**
+   * Keep a single timer armed for the earliest pending processAt or expiry
+   */
+  private scheduleWakeUp(): void {
+    const now = Date.now();
+    let wakeUpAt: number | undefined;
+
+    // Waiting tasks expire and finished tasks are pruned even while the queue is paused
+    const housekeepingTimes = this.tasks
+      .filter(task => this.isWaiting(task) && task.expiresAt !== undefined)
+      .map(task => task.expiresAt!);
+
+    this.tasks.forEach(task => {
+      const age = this.getRetentionAge(task);
+      if (age !== undefined) {
+        housekeepingTimes.push(task.updatedAt + age);
+      }
+    });
+
+    const workTimes: number[] = [];
+    if (!this.paused) {
+      this.tasks
+        .filter(task => task.status === TaskStatus.PENDING && task.processAt)
+        .forEach(task => workTimes.push(task.processAt!));
+
+      this.schedules.forEach(schedule => workTimes.push(schedule.nextRunAt));
+
+      if (this.batchDueAt !== undefined) {
+        workTimes.push(this.batchDueAt);
+      }
+
+      // Wake up once rate-limited tasks that are already due may start
+      if (this.rateLimiter) {
+        this.tasks
+          .filter(task => task.status === TaskStatus.PENDING && (task.processAt || 0) <= now)
+          .forEach(task => workTimes.push(this.rateLimiter!.nextAvailableAt(task.groupKey, now)));
+      }
+    }
+
+    [...housekeepingTimes, ...workTimes].forEach(dueAt => {
+      if (dueAt > now && (wakeUpAt === undefined || dueAt < wakeUpAt)) {
+        wakeUpAt = dueAt;
+      }
     });
+
+    if (wakeUpAt !== this.wakeUpAt) {
+      if (this.wakeUpTimer) {
+        clearTimeout(this.wakeUpTimer);
+        this.wakeUpTimer = undefined;
+      }
+      this.wakeUpAt = wakeUpAt;
+
+      if (wakeUpAt === undefined) return;
+
+      // Timers cannot be armed that far ahead; waking early simply re-arms
+      this.wakeUpTimer = setTimeout(() => {
+        this.wakeUpTimer = undefined;
+        this.wakeUpAt = undefined;
+        this.processQueue();
+      }, Math.min(wakeUpAt - now, MAX_TIMER_DELAY));
+    }
+
+    // Expiring and pruning tasks alone doesn't keep a Node.js process running
+    const timer = this.wakeUpTimer as { ref?: () => void; unref?: () => void } | undefined;
+    if (workTimes.some(dueAt => dueAt > now)) {
+      timer?.ref?.();
+    } else {
+      timer?.unref?.();
+    }
+  }
+
+  /**
+   * Get the next task to process, optionally among those matching a filter.
+   *
+   * With ready tasks found by the storage's index, only those are considered,
+   * falling back to every task in memory when a partial page of them has none
+   * that may start.
+   */
+  private getNextTask(
+    filter?: (task: QueuedTask<T, R>) => boolean,
+    readyTasks?: ReadyTasks<T, R>
+  ): QueuedTask<T, R> | undefined {
+    const now = Date.now();
+    let processingByType: Map<string, number> | undefined;
+    let groupHeads: Map<string, QueuedTask<T, R>> | undefined;
+
+    const isReady = (task: QueuedTask<T, R>): boolean => {
+      if (task.processAt && task.processAt > now) return false;
+      if (!this.hasHandler(task)) return false;
+      if (this.rateLimiter && !this.rateLimiter.canStart(task.groupKey, now)) return false;
+
+      const concurrency = this.getTaskType(task)?.options.concurrency;
+      if (concurrency === undefined) return true;
+
+      processingByType = processingByType || this.countProcessingByType();
+      return (processingByType.get(task.type!) || 0) < concurrency;
+    };
+
+    const candidates = (readyTasks ? readyTasks.tasks : this.tasks).filter(task => {
+      if (task.status !== TaskStatus.PENDING) return false;
+      if (filter && !filter(task)) return false;
+      if (task.groupKey !== undefined) {
+        groupHeads = groupHeads || this.getGroupHeads();
+        if (groupHeads.get(task.groupKey) !== task) return false;
+      }
+      return isReady(task);
+    });
+
+    // Candidates are in priority order; among equal priorities, take turns between groups
+    let next: QueuedTask<T, R> | undefined;
+    candidates.forEach(task => {
+      if (!next) {
+        next = task;
+      } else if (
+        (task.priority || 0) === (next.priority || 0) &&
+        (this.groupTurns.get(task.groupKey) || 0) < (this.groupTurns.get(next.groupKey) || 0)
+      ) {
+        next = task;
+      }
+    });
+
+    if (!next && readyTasks && !readyTasks.complete) {
+      return this.getNextTask(filter);
+    }
+    return next;
+  }
+
+  /**
+   * Count the processing tasks of each registered type
+   */
+  private countProcessingByType(): Map<string, number> {
+    const processingByType = new Map<string, number>();
+
+    this.tasks.forEach(task => {
+      if (task.status === TaskStatus.PROCESSING && task.type !== undefined) {
+        processingByType.set(task.type, (processingByType.get(task.type) || 0) + 1);
+      }
+    });
+    return processingByType;
+  }
+
+  /**
+   * Get the task each group may start next, if any.
+   *
+   * Tasks of a group start strictly in the order they were added: the oldest
+   * pending task is the group's head, and the group waits while that task is
+   * delayed (e.g. backing off before a retry) or the group is at its
+   * concurrency limit.
+   */
+  private getGroupHeads(): Map<string, QueuedTask<T, R>> {
+    const groups = new Map<string, { processing: number; head?: QueuedTask<T, R> }>();
+
+    this.tasks
+      .filter(task =>
+        task.groupKey !== undefined &&
+        (task.status === TaskStatus.PENDING || task.status === TaskStatus.PROCESSING)
+      )
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(task => {
+        const group = groups.get(task.groupKey!) || { processing: 0 };
+        groups.set(task.groupKey!, group);
+
+        if (task.status === TaskStatus.PROCESSING) {
+          group.processing++;
+        } else if (!group.head) {
+          group.head = task;
+        }
+      });
+
+    // Forget the turns of groups that have no tasks left
+    this.groupTurns.forEach((_, groupKey) => {
+      if (groupKey !== undefined && !groups.has(groupKey)) {
+        this.groupTurns.delete(groupKey);
+      }
+    });
+
+    const heads = new Map<string, QueuedTask<T, R>>();
+    groups.forEach((group, groupKey) => {
+      if (group.head && group.processing < this.config.groupConcurrency) {
+        heads.set(groupKey, group.head);
+      }
+    });
+    return heads;
+  }
+
+  /**
+   * Get the registered type of a task, if it has one
+   */
+  private getTaskType(task: QueuedTask<T, R>): TaskTypeRegistration<R> | undefined {
+    return task.type === undefined ? undefined : this.taskTypes.get(task.type);
+  }
+
+  /**
+   * Whether a task can be processed, by its type's handler, the processor or the batch processor
+   */
+  private hasHandler(task: QueuedTask<T, R>): boolean {
+    return Boolean(this.getHandler(task) || (task.type === undefined && this.batchProcessor));
+  }
+
+  /**
+   * Get the function that processes a task: its type's handler or the processor
+   */
+  private getHandler(task: QueuedTask<T, R>): TaskProcessor<any, R> | undefined {
+    return task.type === undefined ? this.processor : this.getTaskType(task)?.handler;
   }
 
   /**
    * Process a single task
    */
-  private async processTask(task: QueuedTask<T>): Promise<void> {
-    if (!this.processor) return;
+  private async processTask(task: QueuedTask<T, R>): Promise<void> {
+    const handler = this.getHandler(task);
+    if (!handler) return;
 
     this.processingCount++;
-    task.status = TaskStatus.PROCESSING;
-    task.updatedAt = Date.now();
+
+    const controller = new AbortController();
+    this.abortControllers.set(task.id, controller);
+
+    const timeout = task.timeout ?? this.getTaskType(task)?.options.timeout ?? this.config.timeout;
+    const timeoutTimer = timeout > 0
+      ? setTimeout(() => controller.abort(new TimeoutError(timeout)), timeout)
+      : undefined;
     
-    this.saveToStorage();
-    this.emit('taskStarted', task);
-    this.emit('queueUpdated', [...this.tasks]);
+    this.startTask(task);
+    this.emitQueueUpdated();
 
     try {
-      await this.processor(task.data, task);
-      
-      task.status = TaskStatus.COMPLETED;
-      task.updatedAt = Date.now();
+      const result = await this.runProcessor(handler, task, controller.signal);
+
+      // The task was cancelled while its processor was running
+      if (task.status !== TaskStatus.PROCESSING) return;
       
-      this.saveToStorage();
-      this.emit('taskCompleted', task);
-      this.emit('queueUpdated', [...this.tasks]);
+      this.completeTask(task, result);
       
     } catch (error) {
+      if (task.status !== TaskStatus.PROCESSING) return;
+
       await this.handleTaskError(task, error as Error);
     } finally {
+      clearTimeout(timeoutTimer);
+      this.abortControllers.delete(task.id);
       this.processingCount--;
+      this.resolveWaiters();
       
       // Continue processing if there are more tasks
       setTimeout(() => this.processQueue(), 0);
     }
   }
 
+  /**
+   * Process a batch of tasks with the batch processor
+   */
+  private async processBatch(tasks: QueuedTask<T, R>[]): Promise<void> {
+    const { process } = this.batchProcessor!;
+
+    this.processingCount++;
+
+    const controller = new AbortController();
+    const timeout = this.config.timeout;
+    const timeoutTimer = timeout > 0
+      ? setTimeout(() => controller.abort(new TimeoutError(timeout)), timeout)
+      : undefined;
+
+    tasks.forEach(task => this.startTask(task));
+    this.emitQueueUpdated();
+
+    let results: (R | Error)[] = [];
+    let batchError: Error | undefined;
+    try {
+      results = await this.runBatchProcessor(process, tasks, controller.signal);
+    } catch (error) {
+      // Whatever the batch processor threw fails every task of the batch
+      batchError = error instanceof Error ? error : new Error(String(error));
+    } finally {
+      clearTimeout(timeoutTimer);
+    }
+
+    // The batch holds its slot until every task is settled, so drain() waits for all of them
+    try {
+      for (let index = 0; index < tasks.length; index++) {
+        const task = tasks[index];
+        const result = results[index];
+
+        // The task was cancelled while its batch was processing
+        if (task.status !== TaskStatus.PROCESSING) continue;
+
+        if (batchError || result instanceof Error) {
+          await this.handleTaskError(task, batchError || (result as Error));
+        } else {
+          this.completeTask(task, result);
+        }
+      }
+    } finally {
+      this.processingCount--;
+      this.resolveWaiters();
+    }
+
+    // Continue processing if there are more tasks
+    setTimeout(() => this.processQueue(), 0);
+  }
+
+  /**
+   * Take the tasks of the next batch, or none while a batch that isn't full
+   * is still waiting to fill
+   */
+  private takeBatch(readyTasks?: ReadyTasks<T, R>): QueuedTask<T, R>[] {
+    const { size, wait = 0 } = this.batchProcessor!.options;
+    const now = Date.now();
+    const batch: QueuedTask<T, R>[] = [];
+
+    // Mark each task as processing while picking, so group rules see the ones already picked
+    while (batch.length < size) {
+      const task = this.getNextTask(candidate => candidate.type === undefined, readyTasks);
+      if (!task) break;
+
+      task.status = TaskStatus.PROCESSING;
+      batch.push(task);
+    }
+    batch.forEach(task => {
+      task.status = TaskStatus.PENDING;
+    });
+
+    if (batch.length < size) {
+      this.batchDueAt = this.batchDueAt ?? now + wait;
+      if (this.batchDueAt > now) return [];
+    }
+    this.batchDueAt = undefined;
+
+    // Tasks beyond the rate limit wait for a later batch
+    return batch.filter(task => {
+      if (this.rateLimiter && !this.rateLimiter.canStart(task.groupKey, now)) return false;
+
+      this.recordStart(task);
+      return true;
+    });
+  }
+
+  /**
+   * Record that a task is about to start, for group turns and the rate limiter
+   */
+  private recordStart(task: QueuedTask<T, R>): void {
+    this.groupTurns.set(task.groupKey, ++this.turn);
+    this.rateLimiter?.record(task.groupKey, Date.now());
+  }
+
+  /**
+   * Mark a task as processing and announce it
+   */
+  private startTask(task: QueuedTask<T, R>): void {
+    task.status = TaskStatus.PROCESSING;
+    task.updatedAt = Date.now();
+    this.startAttempt(task);
+
+    this.saveTaskToStorage(task);
+    this.emit('taskStarted', task);
+  }
+
+  /**
+   * Mark a processing task as completed with its result
+   */
+  private completeTask(task: QueuedTask<T, R>, result: R): void {
+    task.status = TaskStatus.COMPLETED;
+    task.result = result;
+    task.updatedAt = Date.now();
+    this.finishAttempt(task, 'completed');
+    this.rememberDedupeKey(task);
+
+    this.saveTaskToStorage(task);
+    this.emit('taskCompleted', task, result);
+    this.resolveDependencies();
+    this.applyRetention();
+    this.emitQueueUpdated();
+  }
+
+  /**
+   * Run the batch processor, settling early if the batch's signal is aborted
+   */
+  private async runBatchProcessor(
+    process: BatchTaskProcessor<T, R>,
+    tasks: QueuedTask<T, R>[],
+    signal: AbortSignal
+  ): Promise<(R | Error)[]> {
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+
+    const items = tasks.map(task => task.data);
+    const results = await Promise.race([process(items, tasks, { signal }), aborted]);
+
+    if (!Array.isArray(results) || results.length !== tasks.length) {
+      throw new Error(`Batch processor must return one result per task (expected ${tasks.length})`);
+    }
+    return results;
+  }
+
+  /**
+   * Run the processor for a task, settling early if its signal is aborted
+   */
+  private runProcessor(
+    handler: TaskProcessor<any, R>,
+    task: QueuedTask<T, R>,
+    signal: AbortSignal
+  ): Promise<R> {
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+
+    const parentResults = task.parentResults || {};
+    return Promise.race([handler(task.data, task, { signal, parentResults }), aborted]);
+  }
+
   /**
    * Handle task processing errors
    */
-  private async handleTaskError(task: QueuedTask<T>, error: Error): Promise<void> {
+  private async handleTaskError(task: QueuedTask<T, R>, error: Error): Promise<void> {
     task.retryCount++;
-    task.error = error.message;
+    task.error = this.serializeError(error);
     task.updatedAt = Date.now();
 
-    if (task.retryCount >= this.config.maxRetries) {
+    const outcome = error instanceof TimeoutError ? 'timeout' : 'failed';
+    const retryDelay = this.getRetryDelay(task, error);
+
+    if (retryDelay === undefined) {
       task.status = TaskStatus.FAILED;
-      this.saveToStorage();
+      this.finishAttempt(task, outcome, task.error);
+
+      if (!this.moveToDeadLetterQueue(task)) {
+        this.saveTaskToStorage(task);
+      }
       this.emit('taskFailed', task, error);
-      this.emit('queueUpdated', [...this.tasks]);
+
+      this.resolveDependencies();
+      this.applyRetention();
+      this.emitQueueUpdated();
       return;
     }
 
-    // Schedule retry
-    const retryDelay = calculateRetryDelay(
-      task.retryCount,
-      this.config.retryDelay,
-      this.config.exponentialBackoff,
-      this.config.maxRetryDelay
-    );
+    // A retry that would only start once the task expired is pointless
+    if (task.expiresAt !== undefined && Date.now() + retryDelay >= task.expiresAt) {
+      this.finishAttempt(task, outcome, task.error);
+      this.expireTask(task);
+      this.resolveDependencies();
+      this.emitQueueUpdated();
+      return;
+    }
 
     task.status = TaskStatus.PENDING;
+    task.backoffDelay = retryDelay;
     task.processAt = Date.now() + retryDelay;
+    this.finishAttempt(task, outcome, task.error);
     
-    this.saveToStorage();
+    this.saveTaskToStorage(task);
     this.emit('taskRetried', task);
-    this.emit('queueUpdated', [...this.tasks]);
+    this.emitQueueUpdated();
 
     // Schedule retry processing
-    setTimeout(() => {
-      this.processQueue();
-    }, retryDelay);
+    this.scheduleWakeUp();
+  }
+
+  /**
+   * Record the start of a processing attempt, dropping the oldest beyond the history limit
+   */
+  private startAttempt(task: QueuedTask<T, R>): void {
+    const limit = this.config.attemptHistoryLimit;
+    const attempts = [...(task.attempts || []), { startedAt: Date.now() }];
+
+    task.attempts = limit > 0 ? attempts.slice(-limit) : [];
+  }
+
+  /**
+   * Record how the running attempt of a task ended
+   */
+  private finishAttempt(task: QueuedTask<T, R>, outcome: AttemptOutcome, error?: SerializedError): void {
+    const attempt = task.attempts?.[task.attempts.length - 1];
+    if (!attempt || attempt.outcome) return;
+
+    attempt.finishedAt = Date.now();
+    attempt.duration = attempt.finishedAt - attempt.startedAt;
+    attempt.outcome = outcome;
+    if (error) {
+      attempt.error = error;
+    }
+
+    this.emit('taskAttempted', task, attempt);
+  }
+
+  /**
+   * Serialize an error for storage, using the configured serializer if any
+   */
+  private serializeError(error: Error): SerializedError {
+    if (this.config.serializeError) {
+      try {
+        return this.config.serializeError(error);
+      } catch (serializerError) {
+        console.error('Failed to serialize task error:', serializerError);
+      }
+    }
+    return serializeError(error);
+  }
+
+  /**
+   * Ask the retry policy how to retry a failed attempt, applying the default
+   * retry delay if the policy throws
+   */
+  private getRetryDecision(task: QueuedTask<T, R>, error: Error): RetryDecision | void {
+    const retryPolicy = this.getTaskType(task)?.options.retryPolicy || this.config.retryPolicy;
+    if (!retryPolicy) return undefined;
+
+    try {
+      return retryPolicy(error, task);
+    } catch (policyError) {
+      console.error('Retry policy failed:', policyError);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the delay before retrying a failed attempt, or undefined if the task has failed
+   */
+  private getRetryDelay(task: QueuedTask<T, R>, error: Error): number | undefined {
+    const typeOptions = this.getTaskType(task)?.options || {};
+    const maxRetries = typeOptions.maxRetries ?? this.config.maxRetries;
+
+    if (error instanceof UnrecoverableError || task.retryCount >= maxRetries) {
+      return undefined;
+    }
+
+    const decision = this.getRetryDecision(task, error);
+    if (decision === 'skip') return undefined;
+    if (decision === 'retry-now') return 0;
+    if (decision) return Math.max(0, decision.retryAfter);
+
+    const defaultStrategy = this.config.exponentialBackoff ? 'exponential' : 'fixed';
+    const strategy = task.backoff ?? typeOptions.backoff ?? this.config.backoff ?? defaultStrategy;
+    const backoffOptions = {
+      baseDelay: typeOptions.retryDelay ?? this.config.retryDelay,
+      maxDelay: typeOptions.maxRetryDelay ?? this.config.maxRetryDelay,
+      previousDelay: task.backoffDelay,
+    };
+
+    try {
+      return calculateBackoff(strategy, task.retryCount, backoffOptions);
+    } catch (backoffError) {
+      console.error('Backoff strategy failed:', backoffError);
+      return calculateBackoff(defaultStrategy, task.retryCount, backoffOptions);
+    }
+  }
+
+  /**
+   * Move a failed task to the dead-letter queue, if one is configured
+   */
+  private moveToDeadLetterQueue(task: QueuedTask<T, R>): boolean {
+    const deadLetterQueue = this.getDeadLetterQueue();
+    if (!deadLetterQueue) return false;
+
+    this.tasks = this.tasks.filter(existing => existing !== task);
+    this.removeFromStorage([task.id]);
+
+    const deadTask: QueuedTask = {
+      ...task,
+      deadLetter: { sourceQueue: this.config.storageKey, sourceId: this.sourceId, failedAt: Date.now() },
+    };
+
+    // A task redriven before may still have an older copy there
+    deadLetterQueue.tasks = deadLetterQueue.tasks.filter(existing => existing.id !== deadTask.id);
+    deadLetterQueue.insertTask(deadTask);
+
+    this.emit('taskDeadLettered', deadTask, deadLetterQueue);
+    return true;
+  }
+
+  /**
+   * Resolve the configured dead-letter queue
+   */
+  private getDeadLetterQueue(): ReliableQueue<any, any> | undefined {
+    const { deadLetterQueue } = this.config;
+    if (deadLetterQueue === undefined) return undefined;
+
+    const queue = typeof deadLetterQueue === 'string'
+      ? QueueManager.getInstance().getQueue(deadLetterQueue)
+      : deadLetterQueue;
+
+    if (!queue) {
+      console.warn(`Dead-letter queue "${deadLetterQueue}" was not found`);
+      return undefined;
+    }
+    return queue === this ? undefined : queue;
+  }
+
+  /**
+   * Queue a write against the storage adapter, keeping writes in order
+   */
+  private enqueueWrite(write: (storage: QueueStorage<T>) => Promise<void>): void {
+    if (!this.config.persistent || !this.isLoaded) return;
+
+    const storage = this.config.storage as QueueStorage<T>;
+    this.pendingWrites = this.pendingWrites
+      .then(() => write(storage))
+      .catch(error => {
+        console.error('Failed to save queue to storage:', error);
+      });
   }
 
   /**
    * Save queue state to storage
    */
   private saveToStorage(): void {
-    if (!this.config.persistent || !isBrowser()) return;
+    const tasks = this.tasks.map(task => this.toStoredTask(task));
+    this.enqueueWrite(storage => storage.save(this.config.storageKey, tasks));
+  }
 
-    try {
-      const data = safeJsonStringify(this.tasks);
-      localStorage.setItem(this.config.storageKey, data);
-    } catch (error) {
-      console.error('Failed to save queue to storage:', error);
+  /**
+   * Save a single task to storage, falling back to a full save
+   */
+  private saveTaskToStorage(task: QueuedTask<T, R>): void {
+    if (!this.config.storage.upsertTask) {
+      this.saveToStorage();
+      return;
+    }
+
+    const storedTask = this.toStoredTask(task);
+    this.enqueueWrite(storage => storage.upsertTask!(this.config.storageKey, storedTask));
+  }
+
+  /**
+   * Strip values that can't be persisted, like custom backoff functions
+   */
+  private toStoredTask(task: QueuedTask<T, R>): QueuedTask<T, R> {
+    return typeof task.backoff === 'function' ? { ...task, backoff: undefined } : task;
+  }
+
+  /**
+   * Remove tasks from storage, falling back to a full save
+   */
+  private removeFromStorage(taskIds: string[]): void {
+    if (taskIds.length === 0) return;
+
+    if (!this.config.storage.removeTask) {
+      this.saveToStorage();
+      return;
     }
+
+    this.enqueueWrite(async storage => {
+      for (const taskId of taskIds) {
+        await storage.removeTask!(this.config.storageKey, taskId);
+      }
+    });
+  }
+
+  /**
+   * Save recurring task schedules to storage, if the adapter supports them
+   */
+  private saveSchedulesToStorage(): void {
+    if (!this.config.storage.saveSchedules) return;
+
+    const schedules = this.getSchedules();
+    this.enqueueWrite(storage => storage.saveSchedules!(this.config.storageKey, schedules));
   }
 
   /**
    * Load queue state from storage
    */
-  private loadFromStorage(): void {
-    if (!this.config.persistent || !isBrowser()) return;
+  /**
+   * Bring a stored task up to date: processing tasks are reset to pending,
+   * marking their attempt as interrupted, and errors stored as plain messages
+   * by older versions become serialized errors
+   */
+  private restoreTask(stored: QueuedTask<T, R>): QueuedTask<T, R> {
+    let task = stored;
+
+    const error: unknown = task.error;
+    if (typeof error === 'string') {
+      task = { ...task, error: { name: 'Error', message: error } };
+    }
+
+    if (task.status === TaskStatus.PROCESSING) {
+      task = {
+        ...task,
+        status: TaskStatus.PENDING,
+        attempts: task.attempts?.map(attempt =>
+          attempt.outcome ? attempt : { ...attempt, outcome: 'interrupted' as const }
+        ),
+      };
+    }
+
+    return task;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    const restored: QueuedTask<T, R>[] = [];
+    // Restored tasks whose stored copy is still up to date
+    const unchanged = new Set<QueuedTask<T, R>>();
 
     try {
-      const data = localStorage.getItem(this.config.storageKey);
-      if (data) {
-        const tasks = safeJsonParse<QueuedTask<T>[]>(data);
-        if (Array.isArray(tasks)) {
-          // Reset processing tasks to pending on load
-          this.tasks = tasks.map(task => ({
-            ...task,
-            status: task.status === TaskStatus.PROCESSING ? TaskStatus.PENDING : task.status,
-          }));
-          this.sortTasksByPriority();
-        }
+      const tasks = await this.config.storage.load(this.config.storageKey);
+      if (Array.isArray(tasks)) {
+        // Tasks added while loading take precedence over stored copies
+        const knownIds = new Set(this.tasks.map(task => task.id));
+
+        tasks
+          .filter(task => !knownIds.has(task.id))
+          .forEach(stored => {
+            const task = this.restoreTask(stored);
+            if (task === stored) unchanged.add(task);
+            restored.push(task);
+          });
+
+        this.tasks.push(...restored);
+        this.sortTasksByPriority();
+        restored
+          .filter(task => task.status === TaskStatus.COMPLETED)
+          .forEach(task => this.rememberDedupeKey(task));
+      }
+
+      const schedules = await this.config.storage.loadSchedules?.(this.config.storageKey);
+      if (Array.isArray(schedules)) {
+        schedules.forEach(stored => {
+          const declared = this.schedules.get(stored.id);
+          if (!declared) {
+            this.schedules.set(stored.id, stored);
+          } else if (this.isSameTiming(declared, stored)) {
+            // Keep the stored progress of schedules re-declared while loading
+            declared.nextRunAt = stored.nextRunAt;
+            declared.lastRunAt = stored.lastRunAt;
+            declared.createdAt = stored.createdAt;
+          }
+        });
       }
     } catch (error) {
       console.error('Failed to load queue from storage:', error);
     }
+
+    this.isLoaded = true;
+
+    // Persist tasks that were added before storage was ready or changed on restore, in their current state
+    if (this.config.storage.upsertTask) {
+      this.tasks
+        .filter(task => !unchanged.has(task))
+        .forEach(task => this.saveTaskToStorage(task));
+    } else {
+      this.saveToStorage();
+    }
+    this.saveSchedulesToStorage();
+    this.expireTasks();
+    this.resolveDependencies();
+    this.applyRetention();
+    this.emitQueueUpdated();
+    this.processQueue();
   }
 }
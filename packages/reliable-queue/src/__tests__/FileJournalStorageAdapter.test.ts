@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileJournalStorageAdapter } from '../node';
+import { QueuedTask, TaskStatus } from '../index';
+
+describe('FileJournalStorageAdapter', () => {
+  let directory: string;
+
+  const createTask = (id: string, status: TaskStatus = TaskStatus.PENDING): QueuedTask => ({
+    id,
+    data: { id },
+    status,
+    retryCount: 0,
+    createdAt: 1,
+    updatedAt: 1,
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'reliable-queue-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should replay journaled transitions after a restart', async () => {
+    const storage = new FileJournalStorageAdapter({ directory });
+    await storage.upsertTask('jobs', createTask('a'));
+    await storage.upsertTask('jobs', createTask('b'));
+    await storage.upsertTask('jobs', createTask('a', TaskStatus.COMPLETED));
+    await storage.removeTask('jobs', 'b');
+
+    const journal = await fs.readFile(path.join(directory, 'jobs.journal.jsonl'), 'utf8');
+    expect(journal.trim().split('\n').map(line => JSON.parse(line).op)).toEqual([
+      'add',
+      'add',
+      'complete',
+      'remove',
+    ]);
+
+    const restarted = new FileJournalStorageAdapter({ directory });
+    const tasks = await restarted.load('jobs');
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks![0]).toMatchObject({ id: 'a', status: TaskStatus.COMPLETED });
+  });
+
+  it('should ignore a torn final journal line', async () => {
+    const storage = new FileJournalStorageAdapter({ directory });
+    await storage.upsertTask('jobs', createTask('a'));
+    await fs.appendFile(path.join(directory, 'jobs.journal.jsonl'), '{"op":"add","id":"b","ta');
+
+    const tasks = await new FileJournalStorageAdapter({ directory }).load('jobs');
+    expect(tasks?.map(task => task.id)).toEqual(['a']);
+  });
+
+  it('should compact the journal into a snapshot', async () => {
+    const storage = new FileJournalStorageAdapter({ directory, compactThreshold: 3 });
+    await storage.upsertTask('jobs', createTask('a'));
+    await storage.upsertTask('jobs', createTask('a', TaskStatus.PROCESSING));
+    await storage.upsertTask('jobs', createTask('a', TaskStatus.FAILED));
+
+    const journal = await fs.readFile(path.join(directory, 'jobs.journal.jsonl'), 'utf8');
+    const snapshot = JSON.parse(await fs.readFile(path.join(directory, 'jobs.snapshot.json'), 'utf8'));
+
+    expect(journal).toBe('');
+    expect(snapshot).toEqual([createTask('a', TaskStatus.FAILED)]);
+  });
+});
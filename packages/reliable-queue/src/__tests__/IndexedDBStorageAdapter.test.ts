@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+// The node environment provides the structuredClone that fake-indexeddb relies on
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { IndexedDBStorageAdapter, QueuedTask, ReliableQueue, TaskSchedule, TaskStatus } from '../index';
+
+describe('IndexedDBStorageAdapter', () => {
+  let factory: IDBFactory;
+  let storage: IndexedDBStorageAdapter;
+
+  const createTask = (id: string, overrides: Partial<QueuedTask> = {}): QueuedTask => ({
+    id,
+    data: { id },
+    status: TaskStatus.PENDING,
+    retryCount: 0,
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  });
+
+  const openDatabase = (version: number, upgrade: (database: IDBDatabase) => void): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+      const request = factory.open('reliable-queue', version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  beforeEach(() => {
+    jest.useRealTimers();
+    factory = new IDBFactory();
+    storage = new IndexedDBStorageAdapter({ indexedDB: factory, IDBKeyRange });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    jest.useFakeTimers();
+  });
+
+  it('should save, upsert and remove tasks per queue key', async () => {
+    await storage.save('jobs', [createTask('a'), createTask('b')]);
+    await storage.save('other', [createTask('c')]);
+    await storage.upsertTask('jobs', createTask('a', { status: TaskStatus.COMPLETED, result: 'done' }));
+    await storage.upsertTask('jobs', createTask('d'));
+    await storage.removeTask('jobs', 'b');
+
+    const tasks = await storage.load('jobs');
+    expect(tasks?.map(task => task.id)).toEqual(['a', 'd']);
+    expect(tasks?.[0]).toEqual(createTask('a', { status: TaskStatus.COMPLETED, result: 'done' }));
+    expect((await storage.load('other'))?.map(task => task.id)).toEqual(['c']);
+
+    await storage.save('jobs', [createTask('e')]);
+    expect((await storage.load('jobs'))?.map(task => task.id)).toEqual(['e']);
+    expect(await storage.load('missing')).toBeNull();
+  });
+
+  it('should only clear the records of its own key', async () => {
+    // Keys sharing a prefix must stay outside each other's key range
+    await storage.save('jobs', [createTask('a')]);
+    await storage.save('jobs-2', [createTask('b')]);
+    await storage.save('job', [createTask('c')]);
+
+    await storage.save('jobs', []);
+
+    expect(await storage.load('jobs')).toBeNull();
+    expect((await storage.load('jobs-2'))?.map(task => task.id)).toEqual(['b']);
+    expect((await storage.load('job'))?.map(task => task.id)).toEqual(['c']);
+  });
+
+  it('should store schedules and delete everything under a key', async () => {
+    const schedule: TaskSchedule = {
+      id: 'nightly',
+      cron: '0 0 * * *',
+      data: { id: 'nightly' },
+      taskOptions: {},
+      nextRunAt: 10,
+      createdAt: 1,
+    };
+    await storage.saveSchedules('jobs', [schedule]);
+    await storage.saveSchedules('other', [schedule]);
+    await storage.save('jobs', [createTask('a')]);
+    await storage.save('other', [createTask('b')]);
+
+    expect(await storage.loadSchedules('jobs')).toEqual([schedule]);
+
+    await storage.delete('jobs');
+    expect(await storage.load('jobs')).toBeNull();
+    expect(await storage.loadSchedules('jobs')).toBeNull();
+    expect((await storage.load('other'))?.map(task => task.id)).toEqual(['b']);
+    expect(await storage.loadSchedules('other')).toEqual([schedule]);
+  });
+
+  it('should query tasks by status and due time', async () => {
+    await storage.save('jobs', [
+      createTask('later', { processAt: 300 }),
+      createTask('soon', { processAt: 100 }),
+      createTask('done', { status: TaskStatus.COMPLETED }),
+    ]);
+
+    expect((await storage.getTasksByStatus('jobs', TaskStatus.COMPLETED)).map(task => task.id)).toEqual(['done']);
+    expect((await storage.getDueTasks('jobs', 200)).map(task => task.id)).toEqual(['soon']);
+  });
+
+  it('should round-trip binary payloads through structured cloning', async () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    await storage.save('jobs', [createTask('upload', { data: { file: new Blob(['contents']), buffer: bytes.buffer } })]);
+
+    const [task] = (await storage.load('jobs'))!;
+    expect(task.data.file).toBeInstanceOf(Blob);
+    expect(await task.data.file.text()).toBe('contents');
+    expect(task.data.buffer).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(task.data.buffer))).toEqual([1, 2, 3]);
+  });
+
+  it('should use the injected implementation without IndexedDB globals', async () => {
+    expect(typeof indexedDB).toBe('undefined');
+    expect(typeof globalThis.IDBKeyRange).toBe('undefined');
+
+    await storage.save('jobs', [createTask('a', { processAt: 100 })]);
+    expect((await storage.getDueTasks('jobs', 200)).map(task => task.id)).toEqual(['a']);
+
+    const withoutKeyRange = new IndexedDBStorageAdapter({ indexedDB: factory });
+    await expect(withoutKeyRange.load('jobs')).rejects.toThrow('IndexedDB is not available in this environment');
+  });
+
+  it('should add the schedule store to a version 1 database', async () => {
+    const database = await openDatabase(1, upgraded => {
+      const store = upgraded.createObjectStore('tasks', { keyPath: ['queueKey', 'id'] });
+      store.createIndex('queueKey', 'queueKey');
+      store.createIndex('status', ['queueKey', 'status']);
+      store.createIndex('processAt', ['queueKey', 'processAt']);
+      store.createIndex('priority', ['queueKey', 'priority']);
+      store.put({ ...createTask('a'), queueKey: 'jobs' });
+    });
+    database.close();
+
+    expect((await storage.load('jobs'))?.map(task => task.id)).toEqual(['a']);
+    expect(await storage.loadSchedules('jobs')).toBeNull();
+  });
+
+  it('should restore a queue from the database', async () => {
+    const queue = new ReliableQueue({ persistent: true, storage, autoStart: false });
+    await queue.ready();
+    const taskId = queue.add({ message: 'persisted' }, { priority: 2 });
+    await queue.flush();
+
+    const restored = new ReliableQueue({ persistent: true, storage, autoStart: false });
+    await restored.ready();
+
+    expect(restored.getTask(taskId)).toMatchObject({ data: { message: 'persisted' }, priority: 2 });
+  });
+});
@@ -1,4 +1,16 @@
-import { ReliableQueue, TaskStatus } from '../index';
+import {
+  ReliableQueue,
+  QueueManager,
+  TaskStatus,
+  MemoryStorageAdapter,
+  TimeoutError,
+  UnrecoverableError,
+  QueueFullError,
+  DependencyError,
+  deserializeError,
+  SerializedError,
+  QueuedTask,
+} from '../index';
 
 describe('ReliableQueue', () => {
   let queue: ReliableQueue<{ message: string }>;
@@ -39,13 +51,15 @@ describe('ReliableQueue', () => {
 
     const taskId = queue.add({ message: 'test' });
     
-    // Fast-forward all timers and wait for all promises
-    await jest.runAllTimersAsync();
+    await queue.onIdle();
     
     expect(mockProcessor).toHaveBeenCalledWith(
       { message: 'test' },
       expect.objectContaining({
         id: taskId,
+      }),
+      expect.objectContaining({
+        signal: expect.any(AbortSignal),
       })
     );
     
@@ -85,7 +99,7 @@ describe('ReliableQueue', () => {
     const tasks = queue.getTasks();
     expect(tasks[0].status).toBe(TaskStatus.FAILED);
     expect(tasks[0].retryCount).toBe(2); // maxRetries
-    expect(tasks[0].error).toBe('Always fails');
+    expect(tasks[0].error?.message).toBe('Always fails');
   });
 
   it('should handle task priority correctly', () => {
@@ -127,12 +141,1026 @@ describe('ReliableQueue', () => {
     expect(queue.getTasks()).toHaveLength(0);
   });
 
+  it('should cancel pending tasks', () => {
+    const taskCancelledSpy = jest.fn();
+    queue.on('taskCancelled', taskCancelledSpy);
+
+    const taskId = queue.add({ message: 'test' });
+
+    expect(queue.cancel(taskId)).toBe(true);
+    expect(queue.getTask(taskId)?.status).toBe(TaskStatus.CANCELLED);
+    expect(queue.getStats().cancelled).toBe(1);
+    expect(taskCancelledSpy).toHaveBeenCalledWith(expect.objectContaining({ id: taskId }));
+    expect(queue.cancel(taskId)).toBe(false);
+  });
+
+  it('should abort the signal of a processing task on cancel', async () => {
+    const signals: AbortSignal[] = [];
+    const mockProcessor = jest.fn().mockImplementation((_data, _task, context) => {
+      signals.push(context.signal);
+      return new Promise(() => {});
+    });
+    queue.setProcessor(mockProcessor);
+
+    const taskId = queue.add({ message: 'test' });
+    const nextId = queue.add({ message: 'next' });
+    expect(queue.getTask(taskId)?.status).toBe(TaskStatus.PROCESSING);
+
+    expect(queue.cancel(taskId)).toBe(true);
+    await jest.runAllTimersAsync();
+
+    expect(signals[0].aborted).toBe(true);
+    expect(queue.getTask(taskId)?.status).toBe(TaskStatus.CANCELLED);
+    // The cancelled task no longer holds the concurrency slot
+    expect(queue.getTask(nextId)?.status).toBe(TaskStatus.PROCESSING);
+  });
+
+  it('should fail attempts that exceed their timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const taskFailedSpy = jest.fn();
+    queue.on('taskFailed', taskFailedSpy);
+    queue.setProcessor(jest.fn().mockImplementation((_data, _task, context) => {
+      signals.push(context.signal);
+      return new Promise(() => {});
+    }));
+
+    const taskId = queue.add({ message: 'hangs' }, { timeout: 500 });
+    await jest.runAllTimersAsync();
+
+    const task = queue.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.FAILED);
+    expect(task?.retryCount).toBe(2);
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+    expect(taskFailedSpy).toHaveBeenCalledWith(expect.anything(), expect.any(TimeoutError));
+  });
+
+  it('should not start tasks while paused', async () => {
+    const mockProcessor = jest.fn().mockResolvedValue(undefined);
+    const pausedSpy = jest.fn();
+    const resumedSpy = jest.fn();
+    queue.setProcessor(mockProcessor);
+    queue.on('queuePaused', pausedSpy);
+    queue.on('queueResumed', resumedSpy);
+
+    queue.pause();
+    const taskId = queue.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+
+    expect(queue.isPaused).toBe(true);
+    expect(pausedSpy).toHaveBeenCalledTimes(1);
+    expect(mockProcessor).not.toHaveBeenCalled();
+
+    queue.resume();
+    await jest.runAllTimersAsync();
+
+    expect(resumedSpy).toHaveBeenCalledTimes(1);
+    expect(queue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should start paused when autoStart is disabled', () => {
+    const pausedQueue = new ReliableQueue({ autoStart: false });
+    const mockProcessor = jest.fn().mockResolvedValue(undefined);
+    pausedQueue.setProcessor(mockProcessor);
+
+    pausedQueue.add({ message: 'test' });
+
+    expect(pausedQueue.isPaused).toBe(true);
+    expect(mockProcessor).not.toHaveBeenCalled();
+  });
+
+  it('should drain in-flight tasks without starting new ones', async () => {
+    const mockProcessor = jest.fn().mockImplementation(() => new Promise(resolve => setTimeout(resolve, 1000)));
+    queue.setProcessor(mockProcessor);
+
+    const firstId = queue.add({ message: 'first' });
+    const secondId = queue.add({ message: 'second' });
+
+    let drained = false;
+    const drain = queue.drain().then(() => {
+      drained = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(drained).toBe(false);
+
+    await jest.runAllTimersAsync();
+    await drain;
+
+    expect(drained).toBe(true);
+    expect(queue.getTask(firstId)?.status).toBe(TaskStatus.COMPLETED);
+    expect(queue.getTask(secondId)?.status).toBe(TaskStatus.PENDING);
+  });
+
+  it('should resolve addAndWait with the task result', async () => {
+    queue.setProcessor(jest.fn().mockResolvedValue({ ok: true }));
+
+    await expect(queue.addAndWait({ message: 'test' })).resolves.toEqual({ ok: true });
+    expect(queue.getStats().completed).toBe(1);
+  });
+
+  it('should store processor results on completed tasks', async () => {
+    const resultQueue = new ReliableQueue<{ value: number }, number>();
+    const taskCompletedSpy = jest.fn();
+    resultQueue.on('taskCompleted', taskCompletedSpy);
+    resultQueue.setProcessor(async data => data.value * 2);
+
+    const taskId = resultQueue.add({ value: 21 });
+    await resultQueue.onIdle();
+
+    expect(resultQueue.getTask(taskId)?.result).toBe(42);
+    expect(taskCompletedSpy).toHaveBeenCalledWith(expect.objectContaining({ id: taskId }), 42);
+  });
+
+  it('should reject addAndWait with the final error', async () => {
+    const error = new Error('Always fails');
+    queue.setProcessor(jest.fn().mockRejectedValue(error));
+
+    const result = queue.addAndWait({ message: 'test' });
+    const assertion = expect(result).rejects.toBe(error);
+    await jest.runAllTimersAsync();
+
+    await assertion;
+  });
+
+  it('should resolve onEmpty and onIdle as the queue settles', async () => {
+    queue.setProcessor(jest.fn().mockImplementation(() => new Promise(resolve => setTimeout(resolve, 1000))));
+    queue.add({ message: 'test' });
+
+    let empty = false;
+    let idle = false;
+    queue.onEmpty().then(() => {
+      empty = true;
+    });
+    queue.onIdle().then(() => {
+      idle = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(empty).toBe(true);
+    expect(idle).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(idle).toBe(true);
+  });
+
+  it('should run delayed tasks once they become due', async () => {
+    const mockProcessor = jest.fn().mockResolvedValue(undefined);
+    queue.setProcessor(mockProcessor);
+
+    const taskId = queue.add({ message: 'later' }, { delay: 5000 });
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(mockProcessor).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(queue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should re-arm the wake-up timer when the earliest task is removed', async () => {
+    const mockProcessor = jest.fn().mockResolvedValue(undefined);
+    queue.setProcessor(mockProcessor);
+
+    const soonId = queue.add({ message: 'soon' }, { delay: 1000 });
+    const laterId = queue.add({ message: 'later' }, { delay: 3000 });
+    queue.remove(soonId);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockProcessor).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(queue.getTask(laterId)?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should enqueue an occurrence for every interval of a schedule', async () => {
+    const mockProcessor = jest.fn().mockResolvedValue(undefined);
+    queue.setProcessor(mockProcessor);
+
+    const scheduleId = queue.schedule({ message: 'tick' }, { every: 1000 });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(mockProcessor).toHaveBeenCalledTimes(3);
+    expect(queue.getTasks().every(task => task.scheduleId === scheduleId)).toBe(true);
+
+    expect(queue.unschedule(scheduleId)).toBe(true);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(mockProcessor).toHaveBeenCalledTimes(3);
+    expect(queue.getSchedules()).toHaveLength(0);
+  });
+
+  it('should keep the next run when a schedule is declared again', async () => {
+    queue.schedule({ message: 'tick' }, { id: 'ticker', every: 1000 });
+    const { nextRunAt } = queue.getSchedules()[0];
+
+    await jest.advanceTimersByTimeAsync(500);
+    queue.schedule({ message: 'tick' }, { id: 'ticker', every: 1000 });
+    expect(queue.getSchedules()[0].nextRunAt).toBe(nextRunAt);
+
+    queue.schedule({ message: 'tick' }, { id: 'ticker', every: 5000 });
+    expect(queue.getSchedules()[0].nextRunAt).not.toBe(nextRunAt);
+  });
+
+  it('should reject schedules without exactly one timing', () => {
+    expect(() => queue.schedule({ message: 'tick' }, {})).toThrow();
+    expect(() => queue.schedule({ message: 'tick' }, { every: 1000, cron: '* * * * *' })).toThrow();
+    expect(() => queue.schedule({ message: 'tick' }, { cron: 'not a cron' })).toThrow();
+  });
+
+  it('should use the task backoff strategy over the queue strategy', async () => {
+    const backoffQueue = new ReliableQueue({ maxRetries: 3, retryDelay: 1000, backoff: 'linear' });
+    backoffQueue.setProcessor(jest.fn().mockRejectedValue(new Error('Always fails')));
+
+    const queueStrategyId = backoffQueue.add({ message: 'linear' });
+    const taskStrategyId = backoffQueue.add({ message: 'custom' }, { backoff: attempt => attempt * 250 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(backoffQueue.getTask(queueStrategyId)?.backoffDelay).toBe(1000);
+    expect(backoffQueue.getTask(taskStrategyId)?.backoffDelay).toBe(250);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(backoffQueue.getTask(queueStrategyId)?.backoffDelay).toBe(2000);
+    expect(backoffQueue.getTask(taskStrategyId)?.backoffDelay).toBe(500);
+  });
+
+  it('should not retry unrecoverable errors', async () => {
+    const mockProcessor = jest.fn().mockRejectedValue(new UnrecoverableError('Invalid payload'));
+    queue.setProcessor(mockProcessor);
+
+    const taskId = queue.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+
+    expect(mockProcessor).toHaveBeenCalledTimes(1);
+    expect(queue.getTask(taskId)?.status).toBe(TaskStatus.FAILED);
+    expect(queue.getTask(taskId)?.error).toMatchObject({ name: 'UnrecoverableError', message: 'Invalid payload' });
+  });
+
+  it('should follow the retry policy decision', async () => {
+    const retryPolicy = jest.fn((error: Error) => {
+      if (error.message === 'rate limited') return { retryAfter: 5000 };
+      if (error.message === 'bad request') return 'skip' as const;
+      return undefined;
+    });
+    const policyQueue = new ReliableQueue<{ message: string }>({ maxRetries: 3, retryPolicy });
+    policyQueue.setProcessor(async ({ message }) => {
+      throw new Error(message);
+    });
+
+    const limitedId = policyQueue.add({ message: 'rate limited' });
+    const badId = policyQueue.add({ message: 'bad request' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(policyQueue.getTask(badId)?.status).toBe(TaskStatus.FAILED);
+    expect(policyQueue.getTask(limitedId)?.processAt).toBe(Date.now() + 5000);
+    expect(retryPolicy).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ id: limitedId }));
+  });
+
+  it('should apply the retry delay when the retry policy throws', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const policyQueue = new ReliableQueue({
+      maxRetries: 3,
+      retryDelay: 100,
+      backoff: 'fixed',
+      retryPolicy: () => {
+        throw new Error('Broken policy');
+      },
+    });
+    const mockProcessor = jest.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('ok');
+    policyQueue.setProcessor(mockProcessor);
+
+    const taskId = policyQueue.add({ message: 'test' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(policyQueue.getTask(taskId)?.status).toBe(TaskStatus.PENDING);
+    expect(policyQueue.getStats().processing).toBe(0);
+    expect(consoleError).toHaveBeenCalledWith('Retry policy failed:', expect.any(Error));
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(policyQueue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+    consoleError.mockRestore();
+  });
+
+  it('should apply the default backoff when a custom backoff throws', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const backoffQueue = new ReliableQueue({
+      maxRetries: 3,
+      retryDelay: 100,
+      exponentialBackoff: false,
+      backoff: () => {
+        throw new Error('Broken backoff');
+      },
+    });
+    const mockProcessor = jest.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('ok');
+    backoffQueue.setProcessor(mockProcessor);
+
+    const taskId = backoffQueue.add({ message: 'test' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(backoffQueue.getTask(taskId)).toMatchObject({ status: TaskStatus.PENDING, processAt: Date.now() + 100 });
+    expect(backoffQueue.getStats().processing).toBe(0);
+    expect(consoleError).toHaveBeenCalledWith('Backoff strategy failed:', expect.any(Error));
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(backoffQueue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+    consoleError.mockRestore();
+  });
+
+  it('should retry straight away on retry-now', async () => {
+    const policyQueue = new ReliableQueue({ maxRetries: 3, retryDelay: 10000, retryPolicy: () => 'retry-now' });
+    const mockProcessor = jest.fn().mockRejectedValueOnce(new Error('Stale token')).mockResolvedValue('ok');
+    policyQueue.setProcessor(mockProcessor);
+
+    const taskId = policyQueue.add({ message: 'test' });
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(mockProcessor).toHaveBeenCalledTimes(2);
+    expect(policyQueue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should move exhausted tasks to the dead-letter queue', async () => {
+    const deadLetterQueue = new ReliableQueue();
+    const source = new ReliableQueue<{ message: string }>({
+      maxRetries: 2,
+      retryDelay: 100,
+      deadLetterQueue,
+    });
+    const onDeadLettered = jest.fn();
+    const onFailed = jest.fn();
+    let updatesSinceLastAttempt = 0;
+    source.on('taskDeadLettered', onDeadLettered);
+    source.on('taskFailed', onFailed);
+    source.on('queueUpdated', () => updatesSinceLastAttempt++);
+    source.setProcessor(jest.fn().mockImplementation(async () => {
+      updatesSinceLastAttempt = 0;
+      throw new Error('Always fails');
+    }));
+
+    const taskId = source.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+
+    expect(source.getTask(taskId)).toBeUndefined();
+    expect(onDeadLettered).toHaveBeenCalledWith(expect.objectContaining({ id: taskId }), deadLetterQueue);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(updatesSinceLastAttempt).toBe(1);
+
+    const deadTask = deadLetterQueue.getTask(taskId);
+    expect(deadTask?.status).toBe(TaskStatus.FAILED);
+    expect(deadTask?.attempts?.map(attempt => attempt.error?.message)).toEqual(['Always fails', 'Always fails']);
+    expect(deadTask?.deadLetter?.sourceQueue).toBe('reliable-queue');
+  });
+
+  it('should redrive dead-lettered tasks back to their source queue', async () => {
+    const manager = QueueManager.getInstance();
+    const deadLetterQueue = manager.createQueue('dead-letters');
+    const source = manager.createQueue<{ message: string }>('redrive-source', {
+      maxRetries: 1,
+      deadLetterQueue: 'dead-letters',
+    });
+
+    const mockProcessor = jest.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('done');
+    source.setProcessor(mockProcessor);
+
+    const taskId = source.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+    expect(deadLetterQueue.getTask(taskId)?.deadLetter?.sourceQueue).toBe('reliable-queue-redrive-source');
+
+    expect(source.redrive()).toBe(1);
+    await jest.runAllTimersAsync();
+
+    expect(deadLetterQueue.getTask(taskId)).toBeUndefined();
+    expect(source.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+    expect(source.getTask(taskId)?.deadLetter).toBeUndefined();
+
+    manager.removeQueue('dead-letters');
+    manager.removeQueue('redrive-source');
+  });
+
+  it('should only redrive tasks of the queue that dead-lettered them', async () => {
+    const deadLetterQueue = new ReliableQueue();
+    const uploads = new ReliableQueue<{ message: string }>({ maxRetries: 1, deadLetterQueue });
+    const emails = new ReliableQueue<{ message: string }>({ maxRetries: 1, deadLetterQueue });
+    const uploadProcessor = jest.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('uploaded');
+    uploads.setProcessor(uploadProcessor);
+    emails.setProcessor(jest.fn().mockRejectedValue(new Error('Down')));
+
+    const uploadId = uploads.add({ message: 'upload' });
+    const emailId = emails.add({ message: 'email' });
+    await jest.runAllTimersAsync();
+    expect(deadLetterQueue.getTasks()).toHaveLength(2);
+
+    expect(uploads.redrive()).toBe(1);
+    await jest.runAllTimersAsync();
+
+    expect(uploads.getTask(uploadId)?.status).toBe(TaskStatus.COMPLETED);
+    expect(uploads.getTask(emailId)).toBeUndefined();
+    expect(deadLetterQueue.getTask(emailId)?.status).toBe(TaskStatus.FAILED);
+    expect(uploadProcessor).toHaveBeenCalledTimes(2);
+  });
+
+  it('should record the history of processing attempts', async () => {
+    const error = Object.assign(new Error('Upload failed'), { cause: new TypeError('Network down') });
+    const mockProcessor = jest.fn()
+      .mockImplementationOnce(async () => {
+        await new Promise(resolve => setTimeout(resolve, 300));
+        throw error;
+      })
+      .mockResolvedValue('ok');
+    const onAttempt = jest.fn();
+    queue.on('taskAttempted', onAttempt);
+    queue.setProcessor(mockProcessor);
+
+    const taskId = queue.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+
+    const attempts = queue.getTask(taskId)?.attempts;
+    expect(attempts).toHaveLength(2);
+    expect(attempts?.[0]).toMatchObject({
+      duration: 300,
+      outcome: 'failed',
+      error: { name: 'Error', message: 'Upload failed', cause: { name: 'TypeError', message: 'Network down' } },
+    });
+    expect(attempts?.[0].error?.stack).toEqual(expect.any(String));
+    expect(attempts?.[1]).toMatchObject({ outcome: 'completed', duration: 0 });
+    expect(onAttempt).toHaveBeenCalledTimes(2);
+    expect(onAttempt).toHaveBeenLastCalledWith(expect.objectContaining({ id: taskId }), attempts?.[1]);
+  });
+
+  it('should cap the attempt history', async () => {
+    const cappedQueue = new ReliableQueue({ maxRetries: 5, retryDelay: 10, attemptHistoryLimit: 2 });
+    cappedQueue.setProcessor(jest.fn().mockRejectedValue(new TimeoutError(100)));
+
+    const taskId = cappedQueue.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+
+    const task = cappedQueue.getTask(taskId);
+    expect(task?.retryCount).toBe(5);
+    expect(task?.attempts?.map(attempt => attempt.outcome)).toEqual(['timeout', 'timeout']);
+  });
+
+  it('should process named task types with their registered handlers', async () => {
+    const typedQueue = new ReliableQueue<{ message: string }, string, {
+      upload: { fileName: string };
+      ping: { url: string };
+    }>();
+    const processor = jest.fn().mockResolvedValue('processed');
+    typedQueue.setProcessor(processor);
+    typedQueue.register('upload', async ({ fileName }) => `uploaded ${fileName}`);
+    typedQueue.register('ping', async ({ url }) => `pinged ${url}`);
+
+    const uploadId = typedQueue.add({ fileName: 'photo.jpg' }, { type: 'upload', priority: 1 });
+    const pingId = typedQueue.add({ url: '/health' }, { type: 'ping' });
+    const plainId = typedQueue.add({ message: 'plain' });
+    // @ts-expect-error the payload must match the registered type
+    typedQueue.add({ url: '/health' }, { type: 'upload' });
+    await jest.runAllTimersAsync();
+
+    expect(typedQueue.getTask(uploadId)).toMatchObject({ type: 'upload', result: 'uploaded photo.jpg' });
+    expect(typedQueue.getTask(pingId)?.result).toBe('pinged /health');
+    expect(typedQueue.getTask(plainId)?.result).toBe('processed');
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(await typedQueue.addAndWait({ url: '/ready' }, { type: 'ping' })).toBe('pinged /ready');
+  });
+
+  it('should reject task types that are not registered', async () => {
+    const stringQueue = new ReliableQueue<string, string>();
+    const processor = jest.fn().mockResolvedValue('processed');
+    stringQueue.setProcessor(processor);
+    stringQueue.register('upload', async () => 'uploaded');
+
+    expect(() => stringQueue.add('payload', { type: 'download' })).toThrow('Task type "download" is not registered');
+    const taskId = stringQueue.add('upload', { priority: 1 });
+    await jest.runAllTimersAsync();
+
+    expect(stringQueue.getTasks()).toHaveLength(1);
+    expect(stringQueue.getTask(taskId)).toMatchObject({ data: 'upload', result: 'processed' });
+    expect(stringQueue.getTask(taskId)?.type).toBeUndefined();
+  });
+
+  it('should apply task type retry and concurrency settings', async () => {
+    const typedQueue = new ReliableQueue({ maxRetries: 5, retryDelay: 10, concurrency: 4 });
+    const handler = jest.fn(() => new Promise(resolve => setTimeout(resolve, 100)));
+    const failing = jest.fn().mockRejectedValue(new Error('Always fails'));
+    typedQueue.register('upload', handler, { concurrency: 2 });
+    typedQueue.register('analytics', failing, { maxRetries: 1 });
+
+    ['a', 'b', 'c'].forEach(name => typedQueue.add({ name }, { type: 'upload' }));
+    const analyticsId = typedQueue.add({ event: 'view' }, { type: 'analytics' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(typedQueue.getTask(analyticsId)?.status).toBe(TaskStatus.FAILED);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(101);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should process one task per group at a time while running groups in parallel', async () => {
+    const groupQueue = new ReliableQueue<{ message: string }>({ concurrency: 4 });
+    const started: string[] = [];
+    groupQueue.setProcessor(async ({ message }) => {
+      started.push(message);
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+
+    groupQueue.add({ message: 'alice-1' }, { groupKey: 'alice' });
+    groupQueue.add({ message: 'alice-2' }, { groupKey: 'alice', priority: 10 });
+    groupQueue.add({ message: 'bob-1' }, { groupKey: 'bob' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual(['alice-1', 'bob-1']);
+
+    await jest.advanceTimersByTimeAsync(101);
+    expect(started).toEqual(['alice-1', 'bob-1', 'alice-2']);
+  });
+
+  it('should block a group while its oldest task waits to be retried', async () => {
+    const groupQueue = new ReliableQueue<{ message: string }>({
+      concurrency: 2,
+      retryDelay: 1000,
+      exponentialBackoff: false,
+    });
+    const processor = jest.fn(async ({ message }: { message: string }) => {
+      if (message === 'first' && processor.mock.calls.length === 1) {
+        throw new Error('Try again');
+      }
+    });
+    groupQueue.setProcessor(processor);
+
+    const firstId = groupQueue.add({ message: 'first' }, { groupKey: 'doc-1' });
+    const secondId = groupQueue.add({ message: 'second' }, { groupKey: 'doc-1' });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(groupQueue.getTask(firstId)?.status).toBe(TaskStatus.PENDING);
+    expect(groupQueue.getTask(secondId)?.status).toBe(TaskStatus.PENDING);
+    expect(processor).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processor.mock.calls.map(([data]) => data.message)).toEqual(['first', 'first', 'second']);
+  });
+
+  it('should take turns between groups', async () => {
+    const started: string[] = [];
+    queue.setProcessor(async ({ message }) => {
+      started.push(message);
+    });
+    queue.pause();
+
+    queue.add({ message: 'a-1' }, { groupKey: 'a' });
+    queue.add({ message: 'a-2' }, { groupKey: 'a' });
+    queue.add({ message: 'a-3' }, { groupKey: 'a' });
+    queue.add({ message: 'b-1' }, { groupKey: 'b' });
+    queue.add({ message: 'b-2' }, { groupKey: 'b' });
+    queue.resume();
+    await jest.runAllTimersAsync();
+
+    expect(started).toEqual(['a-1', 'b-1', 'a-2', 'b-2', 'a-3']);
+  });
+
+  it('should start at most the rate limit of tasks per interval', async () => {
+    const limitedQueue = new ReliableQueue({ concurrency: 10, rateLimit: { max: 2, interval: 1000 } });
+    const processor = jest.fn().mockResolvedValue(undefined);
+    limitedQueue.setProcessor(processor);
+
+    for (let i = 0; i < 5; i++) {
+      limitedQueue.add({ index: i });
+    }
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(processor).toHaveBeenCalledTimes(2);
+    expect(limitedQueue.getStats().rateLimit).toEqual({
+      max: 2,
+      interval: 1000,
+      remaining: 0,
+      resetAt: Date.now() + 1000,
+    });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processor).toHaveBeenCalledTimes(4);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processor).toHaveBeenCalledTimes(5);
+    expect(limitedQueue.getStats().rateLimit?.remaining).toBe(1);
+  });
+
+  it('should rate limit each group separately', async () => {
+    const limitedQueue = new ReliableQueue({
+      concurrency: 10,
+      groupConcurrency: 10,
+      rateLimit: { max: 1, interval: 1000, perGroup: true },
+    });
+    const processor = jest.fn().mockResolvedValue(undefined);
+    limitedQueue.setProcessor(processor);
+
+    limitedQueue.add({ user: 'a' }, { groupKey: 'a' });
+    limitedQueue.add({ user: 'a' }, { groupKey: 'a' });
+    limitedQueue.add({ user: 'b' }, { groupKey: 'b' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(processor).toHaveBeenCalledTimes(2);
+    expect(limitedQueue.getStats().rateLimit?.groups).toEqual({
+      a: { remaining: 0, resetAt: Date.now() + 1000 },
+      b: { remaining: 0, resetAt: Date.now() + 1000 },
+    });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processor).toHaveBeenCalledTimes(3);
+  });
+
+  it('should run dependent tasks once their dependencies complete', async () => {
+    const workflow = new ReliableQueue<{ step: string }, string>();
+    const contexts: Record<string, unknown>[] = [];
+    workflow.setProcessor(async ({ step }, _task, { parentResults }) => {
+      contexts.push(parentResults);
+      return `${step} done`;
+    });
+    workflow.pause();
+
+    const uploadId = workflow.add({ step: 'upload' });
+    const thumbnailId = workflow.add({ step: 'thumbnail' }, { dependsOn: [uploadId], priority: 10 });
+    const notifyId = workflow.add({ step: 'notify' }, { dependsOn: [uploadId, thumbnailId] });
+
+    expect(workflow.getTask(thumbnailId)?.status).toBe(TaskStatus.BLOCKED);
+    expect(workflow.getStats().blocked).toBe(2);
+
+    workflow.resume();
+    await jest.runAllTimersAsync();
+
+    expect(workflow.getTask(notifyId)?.status).toBe(TaskStatus.COMPLETED);
+    expect(contexts).toEqual([
+      {},
+      { [uploadId]: 'upload done' },
+      { [uploadId]: 'upload done', [thumbnailId]: 'thumbnail done' },
+    ]);
+  });
+
+  it('should fail or skip tasks whose dependency failed', async () => {
+    const workflow = new ReliableQueue<{ step: string }>({ maxRetries: 1 });
+    const onFailed = jest.fn();
+    workflow.on('taskFailed', onFailed);
+    workflow.setProcessor(jest.fn().mockRejectedValue(new Error('Upload failed')));
+    workflow.pause();
+
+    const uploadId = workflow.add({ step: 'upload' });
+    const thumbnailId = workflow.add({ step: 'thumbnail' }, { dependsOn: [uploadId] });
+    const notifyId = workflow.add({ step: 'notify' }, { dependsOn: [thumbnailId] });
+    const cleanupId = workflow.add({ step: 'cleanup' }, { dependsOn: [uploadId], onDependencyFailure: 'skip' });
+
+    workflow.resume();
+    await jest.runAllTimersAsync();
+
+    expect(workflow.getTask(thumbnailId)?.status).toBe(TaskStatus.FAILED);
+    expect(workflow.getTask(thumbnailId)?.error).toMatchObject({ name: 'DependencyError', dependencyId: uploadId });
+    expect(workflow.getTask(notifyId)?.error).toMatchObject({ name: 'DependencyError', dependencyId: thumbnailId });
+    expect(workflow.getTask(cleanupId)?.status).toBe(TaskStatus.CANCELLED);
+    expect(onFailed).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject addAndWait with a DependencyError when a dependency already failed', async () => {
+    const workflow = new ReliableQueue<{ step: string }>({ maxRetries: 1 });
+    workflow.setProcessor(jest.fn().mockRejectedValue(new Error('Upload failed')));
+
+    const uploadId = workflow.add({ step: 'upload' });
+    await jest.runAllTimersAsync();
+
+    await expect(workflow.addAndWait({ step: 'thumbnail' }, { dependsOn: [uploadId] })).rejects.toBeInstanceOf(
+      DependencyError
+    );
+  });
+
+  it('should reject unknown and circular dependencies', () => {
+    expect(() => queue.add({ message: 'child' }, { dependsOn: ['missing'] })).toThrow('unknown task missing');
+    expect(() => queue.add({ message: 'self' }, { id: 'self', dependsOn: ['self'] })).toThrow('circular dependency');
+  });
+
+  it('should reject a task ID that is already in the queue', () => {
+    const taskId = queue.add({ message: 'first' }, { id: 'fixed' });
+
+    expect(() => queue.add({ message: 'second' }, { id: taskId })).toThrow('Task fixed already exists');
+    expect(queue.getTasks()).toHaveLength(1);
+  });
+
+  it('should apply dedupe policies to tasks with the same dedupe key', () => {
+    queue.pause();
+
+    const rejectedId = queue.add({ message: 'first' }, { dedupeKey: 'a' });
+    expect(queue.add({ message: 'second' }, { dedupeKey: 'a' })).toBe(rejectedId);
+    expect(queue.getTask(rejectedId)?.data.message).toBe('first');
+
+    const replacedId = queue.add({ message: 'first' }, { dedupeKey: 'b', delay: 1000 });
+    expect(queue.add({ message: 'second' }, { dedupeKey: 'b', dedupePolicy: 'replace', delay: 5000 })).toBe(replacedId);
+    expect(queue.getTask(replacedId)).toMatchObject({ data: { message: 'second' }, processAt: Date.now() + 1000 });
+
+    const extendedId = queue.add({ message: 'first' }, { dedupeKey: 'c', delay: 1000 });
+    jest.advanceTimersByTime(500);
+    expect(queue.add({ message: 'second' }, { dedupeKey: 'c', dedupePolicy: 'extend', delay: 1000 })).toBe(extendedId);
+    expect(queue.getTask(extendedId)).toMatchObject({ data: { message: 'second' }, processAt: Date.now() + 1000 });
+
+    expect(queue.getTasks()).toHaveLength(3);
+  });
+
+  it('should keep the latest payload of a key whose task is processing', async () => {
+    const releases: (() => void)[] = [];
+    const mockProcessor = jest.fn().mockImplementation(() => new Promise<void>(resolve => releases.push(resolve)));
+    queue.setProcessor(mockProcessor);
+
+    const runningId = queue.add({ message: 'v1' }, { dedupeKey: 'doc', dedupePolicy: 'keep-latest' });
+    expect(queue.getTask(runningId)?.status).toBe(TaskStatus.PROCESSING);
+
+    const latestId = queue.add({ message: 'v2' }, { dedupeKey: 'doc', dedupePolicy: 'keep-latest' });
+    expect(queue.add({ message: 'v3' }, { dedupeKey: 'doc', dedupePolicy: 'keep-latest' })).toBe(latestId);
+    expect(latestId).not.toBe(runningId);
+
+    releases[0]();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(mockProcessor).toHaveBeenCalledTimes(2);
+    expect(mockProcessor.mock.calls[1][0]).toEqual({ message: 'v3' });
+  });
+
+  it('should treat keys of completed tasks as duplicates within the dedupe TTL', async () => {
+    const dedupeQueue = new ReliableQueue<{ message: string }, string>({ dedupeTtl: 1000 });
+    const mockProcessor = jest.fn().mockImplementation(async (data: { message: string }) => data.message);
+    dedupeQueue.setProcessor(mockProcessor);
+
+    const taskId = dedupeQueue.add({ message: 'charge' }, { dedupeKey: 'order-1' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(dedupeQueue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+
+    await expect(dedupeQueue.addAndWait({ message: 'again' }, { dedupeKey: 'order-1' })).resolves.toBe('charge');
+    dedupeQueue.clearCompleted();
+    expect(dedupeQueue.add({ message: 'again' }, { dedupeKey: 'order-1' })).toBe(taskId);
+    expect(mockProcessor).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(dedupeQueue.add({ message: 'later' }, { dedupeKey: 'order-1' })).not.toBe(taskId);
+  });
+
+  it('should process tasks in batches and retry only the failed items', async () => {
+    const batchQueue = new ReliableQueue<{ message: string }, string>({ maxRetries: 2, retryDelay: 100 });
+    let batches = 0;
+    const process = jest.fn(async (items: { message: string }[]) => {
+      batches++;
+      return items.map(item => (item.message === 'flaky' && batches === 1 ? new Error('Rejected') : item.message));
+    });
+    batchQueue.setBatchProcessor(process, { size: 3 });
+    batchQueue.pause();
+
+    const ids = ['a', 'flaky', 'c', 'd'].map(message => batchQueue.add({ message }));
+    batchQueue.resume();
+    await jest.runAllTimersAsync();
+
+    expect(process.mock.calls.map(([items]) => items.map(item => item.message))).toEqual([
+      ['a', 'flaky', 'c'],
+      ['d'],
+      ['flaky'],
+    ]);
+    expect(ids.map(id => batchQueue.getTask(id)?.status)).toEqual(Array(4).fill(TaskStatus.COMPLETED));
+    expect(batchQueue.getTask(ids[1])?.retryCount).toBe(1);
+    expect(batchQueue.getTask(ids[1])?.result).toBe('flaky');
+  });
+
+  it('should wait for a batch to fill before processing it', async () => {
+    const batchQueue = new ReliableQueue<{ message: string }, string>();
+    const process = jest.fn(async (items: { message: string }[]) => items.map(item => item.message));
+    batchQueue.setBatchProcessor(process, { size: 3, wait: 500 });
+
+    batchQueue.add({ message: 'first' });
+    await jest.advanceTimersByTimeAsync(200);
+    batchQueue.add({ message: 'second' });
+    await jest.advanceTimersByTimeAsync(200);
+    expect(process).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(process).toHaveBeenCalledTimes(1);
+    expect(process.mock.calls[0][0]).toEqual([{ message: 'first' }, { message: 'second' }]);
+
+    ['third', 'fourth', 'fifth'].forEach(message => batchQueue.add({ message }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(process).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail every task of a batch when the batch processor throws', async () => {
+    const batchQueue = new ReliableQueue<{ message: string }, string>({ maxRetries: 1 });
+    batchQueue.setBatchProcessor(jest.fn().mockResolvedValue(['only one']), { size: 2 });
+    batchQueue.pause();
+
+    const ids = [batchQueue.add({ message: 'a' }), batchQueue.add({ message: 'b' })];
+    batchQueue.resume();
+    await jest.runAllTimersAsync();
+
+    ids.forEach(id => {
+      expect(batchQueue.getTask(id)?.status).toBe(TaskStatus.FAILED);
+      expect(batchQueue.getTask(id)?.error?.message).toContain('one result per task');
+    });
+  });
+
+  it('should apply the overflow policy once maxSize tasks are unfinished', () => {
+    const addThree = (overflowPolicy: 'throw' | 'drop-oldest' | 'drop-lowest-priority' | 'drop-new') => {
+      const boundedQueue = new ReliableQueue<{ message: string }>({ maxSize: 2, overflowPolicy, autoStart: false });
+      const onDropped = jest.fn();
+      boundedQueue.on('taskDropped', onDropped);
+
+      boundedQueue.add({ message: 'first' }, { priority: 5 });
+      boundedQueue.add({ message: 'second' });
+      boundedQueue.add({ message: 'third' }, { priority: 1 });
+
+      return {
+        messages: boundedQueue.getTasks().map(task => task.data.message),
+        dropped: onDropped.mock.calls.map(([task]) => task.data.message),
+      };
+    };
+
+    expect(() => addThree('throw')).toThrow(QueueFullError);
+    expect(addThree('drop-oldest')).toMatchObject({ messages: ['third', 'second'], dropped: ['first'] });
+    expect(addThree('drop-lowest-priority')).toMatchObject({ messages: ['first', 'third'], dropped: ['second'] });
+    expect(addThree('drop-new')).toMatchObject({ messages: ['first', 'second'], dropped: ['third'] });
+  });
+
+  it('should wait for room with addWithBackpressure', async () => {
+    const boundedQueue = new ReliableQueue<{ message: string }>({ maxSize: 1 });
+    const releases: (() => void)[] = [];
+    boundedQueue.setProcessor(jest.fn().mockImplementation(() => new Promise<void>(resolve => releases.push(resolve))));
+
+    boundedQueue.add({ message: 'first' });
+    const added = jest.fn();
+    boundedQueue.addWithBackpressure({ message: 'second' }).then(added);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(added).not.toHaveBeenCalled();
+
+    releases[0]();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(added).toHaveBeenCalledWith(expect.any(String));
+    expect(boundedQueue.getTask(added.mock.calls[0][0])?.data.message).toBe('second');
+  });
+
+  it('should unsubscribe addAndWait when adding the task throws', async () => {
+    const boundedQueue = new ReliableQueue<{ message: string }>({ maxSize: 1, autoStart: false });
+    const subscribe = boundedQueue.on.bind(boundedQueue);
+    const unsubscribers: jest.Mock[] = [];
+    jest.spyOn(boundedQueue, 'on').mockImplementation((event, callback) => {
+      const unsubscribe = jest.fn(subscribe(event, callback));
+      unsubscribers.push(unsubscribe);
+      return unsubscribe;
+    });
+    boundedQueue.add({ message: 'first' });
+
+    await expect(boundedQueue.addAndWait({ message: 'second' })).rejects.toBeInstanceOf(QueueFullError);
+
+    expect(unsubscribers.length).toBeGreaterThan(0);
+    unsubscribers.forEach(unsubscribe => expect(unsubscribe).toHaveBeenCalled());
+  });
+
+  it('should reject addAndWait when its task is dropped', async () => {
+    const boundedQueue = new ReliableQueue<{ message: string }>({ maxSize: 1, overflowPolicy: 'drop-new', autoStart: false });
+    boundedQueue.add({ message: 'first' });
+
+    await expect(boundedQueue.addAndWait({ message: 'second' })).rejects.toBeInstanceOf(QueueFullError);
+  });
+
+  it('should expire waiting tasks once their ttl passes, even while paused', async () => {
+    const onExpired = jest.fn();
+    const expiringQueue = new ReliableQueue<{ message: string }>({ ttl: 1000, autoStart: false });
+    expiringQueue.on('taskExpired', onExpired);
+
+    const defaultId = expiringQueue.add({ message: 'presence ping' });
+    const longerId = expiringQueue.add({ message: 'autosave' }, { ttl: 5000 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(expiringQueue.getTask(defaultId)?.status).toBe(TaskStatus.EXPIRED);
+    expect(expiringQueue.getTask(longerId)?.status).toBe(TaskStatus.PENDING);
+    expect(onExpired).toHaveBeenCalledWith(expect.objectContaining({ id: defaultId }));
+    expect(expiringQueue.getStats().expired).toBe(1);
+
+    await expect(expiringQueue.addAndWait({ message: 'stale' }, { expiresAt: Date.now() - 1 }))
+      .rejects.toMatchObject({ name: 'ExpiredError' });
+  });
+
+  it('should expire a task instead of retrying it past its expiry', async () => {
+    const expiringQueue = new ReliableQueue<{ message: string }>({ maxRetries: 5, retryDelay: 100, exponentialBackoff: false });
+    const mockProcessor = jest.fn().mockRejectedValue(new Error('Offline'));
+    expiringQueue.setProcessor(mockProcessor);
+
+    const taskId = expiringQueue.add({ message: 'ping' }, { ttl: 150 });
+    await jest.runAllTimersAsync();
+
+    expect(mockProcessor).toHaveBeenCalledTimes(2);
+    expect(expiringQueue.getTask(taskId)?.status).toBe(TaskStatus.EXPIRED);
+    expect(expiringQueue.getTask(taskId)?.attempts?.map(attempt => attempt.outcome)).toEqual(['failed', 'failed']);
+  });
+
+  it('should keep the latest completed tasks and failed tasks for a while', async () => {
+    const retainingQueue = new ReliableQueue<{ message: string }>({
+      maxRetries: 1,
+      retention: { completed: { count: 2 }, failed: { age: 1000 } },
+    });
+    retainingQueue.setProcessor(jest.fn().mockImplementation(async (data: { message: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      if (data.message === 'bad') throw new Error('Rejected');
+    }));
+
+    const ids = ['a', 'b', 'bad', 'c'].map(message => retainingQueue.add({ message }));
+    await jest.advanceTimersByTimeAsync(50);
+
+    expect(retainingQueue.getTasks().map(task => task.data.message).sort()).toEqual(['b', 'bad', 'c']);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(retainingQueue.getTask(ids[2])).toBeUndefined();
+    expect(retainingQueue.getTasks()).toHaveLength(2);
+  });
+
+  it('should keep completed tasks that blocked tasks still depend on', async () => {
+    const retainingQueue = new ReliableQueue<{ message: string }>({ retention: { completed: 'remove' } });
+    const releases: (() => void)[] = [];
+    retainingQueue.setProcessor(jest.fn().mockImplementation((data: { message: string }) =>
+      data.message === 'slow' ? new Promise<void>(resolve => releases.push(resolve)) : Promise.resolve()
+    ));
+    retainingQueue.pause();
+
+    const fastId = retainingQueue.add({ message: 'fast' });
+    const slowId = retainingQueue.add({ message: 'slow' });
+    const childId = retainingQueue.add({ message: 'child' }, { dependsOn: [fastId, slowId] });
+    retainingQueue.resume();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(retainingQueue.getTask(fastId)?.status).toBe(TaskStatus.COMPLETED);
+
+    releases[0]();
+    await jest.runAllTimersAsync();
+    expect(retainingQueue.getTasks()).toEqual([]);
+    expect(retainingQueue.getTask(childId)).toBeUndefined();
+  });
+
+  it('should not clear completed tasks that blocked tasks still depend on', async () => {
+    const workflow = new ReliableQueue<{ message: string }, string>({ concurrency: 3 });
+    const releases: (() => void)[] = [];
+    workflow.setProcessor(jest.fn().mockImplementation((data: { message: string }) =>
+      data.message === 'slow'
+        ? new Promise<string>(resolve => releases.push(() => resolve('slow done')))
+        : Promise.resolve(`${data.message} done`)
+    ));
+    workflow.pause();
+
+    const fastId = workflow.add({ message: 'fast' });
+    const slowId = workflow.add({ message: 'slow' });
+    const childId = workflow.add({ message: 'child' }, { dependsOn: [fastId, slowId] });
+    const otherId = workflow.add({ message: 'other' });
+    workflow.resume();
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(workflow.clearCompleted()).toBe(1);
+    expect(workflow.getTask(otherId)).toBeUndefined();
+    expect(workflow.getTask(fastId)?.status).toBe(TaskStatus.COMPLETED);
+
+    releases[0]();
+    await jest.runAllTimersAsync();
+    expect(workflow.getTask(childId)).toMatchObject({
+      status: TaskStatus.COMPLETED,
+      parentResults: { [fastId]: 'fast done', [slowId]: 'slow done' },
+    });
+  });
+
+  it('should fail every task of a batch when the batch processor throws a non-error', async () => {
+    const batchQueue = new ReliableQueue<{ message: string }, string>({ maxRetries: 1 });
+    batchQueue.setBatchProcessor(jest.fn().mockRejectedValue('boom'), { size: 2 });
+    batchQueue.pause();
+
+    const ids = [batchQueue.add({ message: 'a' }), batchQueue.add({ message: 'b' })];
+    batchQueue.resume();
+    await jest.runAllTimersAsync();
+
+    ids.forEach(id => {
+      expect(batchQueue.getTask(id)?.status).toBe(TaskStatus.FAILED);
+      expect(batchQueue.getTask(id)?.error?.message).toBe('boom');
+    });
+  });
+
+  it('should drain only once every task of a batch is settled', async () => {
+    const batchQueue = new ReliableQueue<{ message: string }, string>({ maxRetries: 3 });
+    let finishBatch: (results: Error[]) => void = () => undefined;
+    batchQueue.setBatchProcessor(() => new Promise(resolve => { finishBatch = resolve; }), { size: 3 });
+    batchQueue.pause();
+
+    const ids = ['a', 'b', 'c'].map(message => batchQueue.add({ message }));
+    batchQueue.resume();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const drained = batchQueue.drain();
+    finishBatch(ids.map(() => new Error('Flaky')));
+    await drained;
+
+    expect(ids.map(id => batchQueue.getTask(id)?.status)).toEqual([
+      TaskStatus.PENDING,
+      TaskStatus.PENDING,
+      TaskStatus.PENDING,
+    ]);
+  });
+
   it('should retry failed tasks manually', () => {
     // Add a task and manually set it as failed
     const taskId = queue.add({ message: 'test' });
     const tasks = queue.getTasks();
     tasks[0].status = TaskStatus.FAILED;
-    tasks[0].error = 'Manual failure';
+    tasks[0].error = { name: 'Error', message: 'Manual failure' };
 
     const retried = queue.retry(taskId);
     expect(retried).toBe(true);
@@ -185,3 +1213,308 @@ describe('ReliableQueue', () => {
     expect(queue.getTasks()).toHaveLength(1);
   });
 });
+
+describe('ReliableQueue persistence', () => {
+  it('should restore tasks from the storage adapter', async () => {
+    const storage = new MemoryStorageAdapter();
+    const first = new ReliableQueue({ persistent: true, storage, storageKey: 'restore' });
+    await first.ready();
+
+    first.add({ message: 'persisted' });
+    await first.flush();
+
+    const second = new ReliableQueue<{ message: string }>({ persistent: true, storage, storageKey: 'restore' });
+    await second.ready();
+
+    const tasks = second.getTasks();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].data.message).toBe('persisted');
+  });
+
+  it('should not share nested task state with the memory adapter', async () => {
+    const storage = new MemoryStorageAdapter();
+    const task: QueuedTask<{ message: string }> = {
+      id: 'task-1',
+      data: { message: 'stored' },
+      status: TaskStatus.PENDING,
+      retryCount: 0,
+      createdAt: 1,
+      updatedAt: 1,
+      attempts: [{ startedAt: 1 }],
+      dependsOn: ['dep-1'],
+    };
+    await storage.upsertTask('copies', task);
+
+    task.attempts!.push({ startedAt: 2 });
+    task.dependsOn!.push('dep-2');
+    task.data.message = 'mutated';
+
+    const [stored] = (await storage.load('copies'))!;
+    expect(stored.attempts).toEqual([{ startedAt: 1 }]);
+    expect(stored.dependsOn).toEqual(['dep-1']);
+    expect(stored.data.message).toBe('stored');
+
+    stored.attempts!.push({ startedAt: 3 });
+    const [reloaded] = (await storage.load('copies'))!;
+    expect(reloaded.attempts).toEqual([{ startedAt: 1 }]);
+  });
+
+  it('should reset processing tasks to pending on load', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.save('interrupted', [
+      {
+        id: 'task-1',
+        data: { message: 'interrupted' },
+        status: TaskStatus.PROCESSING,
+        retryCount: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        attempts: [{ startedAt: 1 }],
+      },
+    ]);
+
+    const queue = new ReliableQueue({ persistent: true, storage, storageKey: 'interrupted' });
+    await queue.ready();
+
+    expect(queue.getTask('task-1')?.status).toBe(TaskStatus.PENDING);
+    expect(queue.getTask('task-1')?.attempts).toEqual([{ startedAt: 1, outcome: 'interrupted' }]);
+  });
+
+  it('should schedule restored delayed tasks', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.save('delayed', [
+      {
+        id: 'task-1',
+        data: { message: 'delayed' },
+        status: TaskStatus.PENDING,
+        retryCount: 0,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        processAt: Date.now() + 2000,
+      },
+    ]);
+
+    const queue = new ReliableQueue({ persistent: true, storage, storageKey: 'delayed' });
+    queue.setProcessor(jest.fn().mockResolvedValue(undefined));
+    await queue.ready();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(queue.getTask('task-1')?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should store structured errors that can be rehydrated after a reload', async () => {
+    class HttpError extends Error {
+      constructor(public status: number) {
+        super(`Request failed with status ${status}`);
+        this.name = 'HttpError';
+      }
+    }
+
+    const storage = new MemoryStorageAdapter();
+    const first = new ReliableQueue({ persistent: true, storage, storageKey: 'errors', maxRetries: 1 });
+    await first.ready();
+    first.setProcessor(jest.fn().mockRejectedValue(new HttpError(422)));
+
+    const taskId = first.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+    await first.flush();
+
+    const second = new ReliableQueue({ persistent: true, storage, storageKey: 'errors' });
+    await second.ready();
+
+    const stored = second.getTask(taskId)?.error;
+    expect(stored).toMatchObject({ name: 'HttpError', message: 'Request failed with status 422', status: 422 });
+
+    const error = deserializeError(stored!);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ name: 'HttpError', message: 'Request failed with status 422', status: 422 });
+    expect(error.stack).toBe(stored!.stack);
+  });
+
+  it('should serialize errors with the configured serializer', async () => {
+    const queue = new ReliableQueue({
+      maxRetries: 1,
+      serializeError: error => ({ name: error.name, message: error.message.toUpperCase() }),
+    });
+    queue.setProcessor(jest.fn().mockRejectedValue(new Error('secret token expired')));
+
+    const taskId = queue.add({ message: 'test' });
+    await jest.runAllTimersAsync();
+
+    expect(queue.getTask(taskId)?.error).toEqual({ name: 'Error', message: 'SECRET TOKEN EXPIRED' });
+    expect(queue.getTask(taskId)?.attempts?.[0].error).toEqual({ name: 'Error', message: 'SECRET TOKEN EXPIRED' });
+  });
+
+  it('should expire stored tasks when loading', async () => {
+    const storage = new MemoryStorageAdapter();
+    const first = new ReliableQueue({ persistent: true, storage, storageKey: 'expiring', autoStart: false });
+    await first.ready();
+
+    const taskId = first.add({ message: 'autosave' }, { ttl: 1000 });
+    await first.flush();
+
+    jest.setSystemTime(Date.now() + 1000);
+    const onExpired = jest.fn();
+    const second = new ReliableQueue({ persistent: true, storage, storageKey: 'expiring', autoStart: false });
+    second.on('taskExpired', onExpired);
+    await second.ready();
+
+    expect(second.getTask(taskId)?.status).toBe(TaskStatus.EXPIRED);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove completed tasks from storage when they finish', async () => {
+    const storage = new MemoryStorageAdapter();
+    const queueUpdated = jest.fn();
+    const retainingQueue = new ReliableQueue({
+      persistent: true,
+      storage,
+      storageKey: 'retention',
+      retention: { completed: 'remove' },
+    });
+    retainingQueue.on('queueUpdated', queueUpdated);
+    retainingQueue.setProcessor(jest.fn().mockResolvedValue(undefined));
+    await retainingQueue.ready();
+
+    retainingQueue.add({ message: 'test' });
+    await jest.advanceTimersByTimeAsync(0);
+    await retainingQueue.flush();
+
+    expect(retainingQueue.getTasks()).toEqual([]);
+    expect(queueUpdated).toHaveBeenLastCalledWith([]);
+    expect(await storage.load('retention')).toEqual([]);
+  });
+
+  it('should restore errors stored as plain messages', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.save('legacy', [{
+      id: 'legacy-task',
+      data: { message: 'old' },
+      status: TaskStatus.FAILED,
+      retryCount: 3,
+      createdAt: 1,
+      updatedAt: 1,
+      // Older versions stored the error message only
+      error: 'Upload failed' as unknown as SerializedError,
+    }]);
+
+    const legacyQueue = new ReliableQueue({ persistent: true, storage, storageKey: 'legacy' });
+    await legacyQueue.ready();
+
+    const task = legacyQueue.getTask('legacy-task');
+    expect(task?.error).toEqual({ name: 'Error', message: 'Upload failed' });
+    expect(deserializeError(task!.error!).message).toBe('Upload failed');
+  });
+
+  it('should pick tasks through the storage index when it has one', async () => {
+    class IndexedStorage extends MemoryStorageAdapter {
+      getReadyTasks = jest.fn(async (key: string, now: number, limit: number) => {
+        const tasks = (await this.load(key)) || [];
+        return tasks
+          .filter(task => task.status === TaskStatus.PENDING && (!task.processAt || task.processAt <= now))
+          .sort((a, b) => (b.priority || 0) - (a.priority || 0) || a.createdAt - b.createdAt)
+          .slice(0, limit);
+      });
+    }
+    const storage = new IndexedStorage();
+    const indexedQueue = new ReliableQueue<{ message: string }>({
+      persistent: true,
+      storage,
+      storageKey: 'indexed',
+      autoStart: false,
+    });
+    const processed: string[] = [];
+    indexedQueue.setProcessor(async ({ message }) => {
+      processed.push(message);
+    });
+    await indexedQueue.ready();
+
+    indexedQueue.add({ message: 'low' });
+    indexedQueue.add({ message: 'high' }, { priority: 5 });
+    indexedQueue.add({ message: 'later' }, { priority: 9, delay: 1000 });
+    indexedQueue.resume();
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(processed).toEqual(['high', 'low']);
+    expect(storage.getReadyTasks).toHaveBeenCalledWith('indexed', expect.any(Number), 100);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processed).toEqual(['high', 'low', 'later']);
+  });
+
+  it('should scan tasks in memory when the storage index fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const storage = Object.assign(new MemoryStorageAdapter(), {
+      getReadyTasks: jest.fn().mockRejectedValue(new Error('Database locked')),
+    });
+    const indexedQueue = new ReliableQueue({ persistent: true, storage, storageKey: 'broken-index' });
+    const mockProcessor = jest.fn().mockResolvedValue('done');
+    indexedQueue.setProcessor(mockProcessor);
+    await indexedQueue.ready();
+
+    const taskId = indexedQueue.add({ message: 'test' });
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(indexedQueue.getTask(taskId)?.status).toBe(TaskStatus.COMPLETED);
+    expect(consoleError).toHaveBeenCalledWith('Failed to query ready tasks from storage:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('should persist tasks added before storage was loaded', async () => {
+    const storage = new MemoryStorageAdapter();
+    const early = new ReliableQueue({ persistent: true, storage, storageKey: 'early', autoStart: false });
+
+    const keptId = early.add({ message: 'kept' });
+    const cancelledId = early.add({ message: 'cancelled' });
+    early.cancel(cancelledId);
+
+    await early.ready();
+    await early.flush();
+
+    const stored = await storage.load('early');
+    expect(stored?.map(task => [task.id, task.status]).sort()).toEqual([
+      [cancelledId, TaskStatus.CANCELLED],
+      [keptId, TaskStatus.PENDING],
+    ].sort());
+  });
+
+  it('should write single task changes through upsertTask', async () => {
+    const storage = new MemoryStorageAdapter();
+    const saveSpy = jest.spyOn(storage, 'save');
+    const upsertSpy = jest.spyOn(storage, 'upsertTask');
+
+    const queue = new ReliableQueue({ persistent: true, storage, storageKey: 'upsert' });
+    await queue.ready();
+    saveSpy.mockClear();
+
+    const taskId = queue.add({ message: 'test' });
+    queue.remove(taskId);
+    await queue.flush();
+
+    expect(upsertSpy).toHaveBeenCalledTimes(1);
+    expect(saveSpy).not.toHaveBeenCalled();
+    expect(await storage.load('upsert')).toEqual([]);
+  });
+
+  it('should not enqueue a schedule occurrence twice across a reload', async () => {
+    const storage = new MemoryStorageAdapter();
+    const first = new ReliableQueue({ persistent: true, storage, storageKey: 'scheduled', autoStart: false });
+    await first.ready();
+
+    first.schedule({ message: 'tick' }, { id: 'ticker', every: 1000 });
+    await jest.advanceTimersByTimeAsync(1000);
+    first.resume();
+    first.pause();
+    await first.flush();
+    expect(first.getTasks()).toHaveLength(1);
+
+    const second = new ReliableQueue({ persistent: true, storage, storageKey: 'scheduled', autoStart: false });
+    second.schedule({ message: 'tick' }, { id: 'ticker', every: 1000 });
+    await second.ready();
+    second.resume();
+    second.pause();
+
+    expect(second.getTasks()).toHaveLength(1);
+    expect(second.getSchedules()[0].lastRunAt).toBe(first.getSchedules()[0].lastRunAt);
+  });
+});
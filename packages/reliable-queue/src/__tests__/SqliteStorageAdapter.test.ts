@@ -0,0 +1,125 @@
+import { SqliteDatabase, SqliteStorageAdapter } from '../node';
+import { QueuedTask, ReliableQueue, TaskSchedule, TaskStatus } from '../index';
+
+// `node:sqlite` is only built into recent Node versions
+const loadSqlite = (): { DatabaseSync: new (path: string) => SqliteDatabase } | undefined => {
+  try {
+    return require('node:sqlite');
+  } catch {
+    return undefined;
+  }
+};
+
+const sqlite = loadSqlite();
+const describeIfSqlite = sqlite ? describe : describe.skip;
+
+describeIfSqlite('SqliteStorageAdapter', () => {
+  let database: SqliteDatabase;
+  let storage: SqliteStorageAdapter;
+
+  const createTask = (id: string, overrides: Partial<QueuedTask> = {}): QueuedTask => ({
+    id,
+    data: { id },
+    status: TaskStatus.PENDING,
+    retryCount: 0,
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    database = new sqlite!.DatabaseSync(':memory:');
+    storage = new SqliteStorageAdapter({ database });
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('should save, upsert and remove tasks per queue key', async () => {
+    await storage.save('jobs', [createTask('a'), createTask('b')]);
+    await storage.save('other', [createTask('c')]);
+    await storage.upsertTask('jobs', createTask('a', { status: TaskStatus.COMPLETED, result: 'done' }));
+    await storage.upsertTask('jobs', createTask('d'));
+    await storage.removeTask('jobs', 'b');
+
+    const tasks = await storage.load('jobs');
+    expect(tasks?.map(task => task.id).sort()).toEqual(['a', 'd']);
+    expect(tasks?.find(task => task.id === 'a')).toMatchObject({ status: TaskStatus.COMPLETED, result: 'done' });
+    expect((await storage.load('other'))?.map(task => task.id)).toEqual(['c']);
+
+    await storage.save('jobs', [createTask('e')]);
+    expect((await storage.load('jobs'))?.map(task => task.id)).toEqual(['e']);
+  });
+
+  it('should store schedules and delete everything under a key', async () => {
+    const schedule: TaskSchedule = {
+      id: 'nightly',
+      cron: '0 0 * * *',
+      data: { id: 'nightly' },
+      taskOptions: {},
+      nextRunAt: 10,
+      createdAt: 1,
+    };
+    await storage.saveSchedules('jobs', [schedule]);
+    await storage.saveSchedules('jobs', [{ ...schedule, nextRunAt: 20 }]);
+    await storage.save('jobs', [createTask('a')]);
+
+    expect(await storage.loadSchedules('jobs')).toEqual([{ ...schedule, nextRunAt: 20 }]);
+
+    await storage.delete('jobs');
+    expect(await storage.load('jobs')).toBeNull();
+    expect(await storage.loadSchedules('jobs')).toBeNull();
+  });
+
+  it('should query ready tasks in processing order', async () => {
+    await storage.save('jobs', [
+      createTask('low', { createdAt: 1 }),
+      createTask('high', { priority: 5, createdAt: 3 }),
+      createTask('older-high', { priority: 5, createdAt: 2 }),
+      createTask('delayed', { priority: 9, processAt: 200 }),
+      createTask('done', { priority: 9, status: TaskStatus.COMPLETED }),
+    ]);
+
+    const ready = await storage.getReadyTasks('jobs', 100, 10);
+    expect(ready.map(task => task.id)).toEqual(['older-high', 'high', 'low']);
+    expect((await storage.getReadyTasks('jobs', 200, 1)).map(task => task.id)).toEqual(['delayed']);
+    expect((await storage.getTasksByStatus('jobs', TaskStatus.COMPLETED)).map(task => task.id)).toEqual(['done']);
+  });
+
+  it('should restore a queue from the database', async () => {
+    const queue = new ReliableQueue({ persistent: true, storage, autoStart: false });
+    await queue.ready();
+    const taskId = queue.add({ message: 'persisted' }, { priority: 2 });
+    await queue.flush();
+
+    const restored = new ReliableQueue({ persistent: true, storage, autoStart: false });
+    await restored.ready();
+
+    expect(restored.getTask(taskId)).toMatchObject({ data: { message: 'persisted' }, priority: 2 });
+  });
+
+  it('should process tasks in the order of the indexed query', async () => {
+    const getReadyTasks = jest.spyOn(storage, 'getReadyTasks');
+    const queue = new ReliableQueue<{ message: string }>({ persistent: true, storage, autoStart: false });
+    const processed: string[] = [];
+    queue.setProcessor(async ({ message }) => {
+      processed.push(message);
+    });
+    await queue.ready();
+
+    queue.add({ message: 'low' });
+    queue.add({ message: 'high' }, { priority: 5 });
+    queue.resume();
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(processed).toEqual(['high', 'low']);
+    expect(getReadyTasks).toHaveBeenCalled();
+  });
+
+  it('should reject invalid table names', () => {
+    expect(() => new SqliteStorageAdapter({ database, tableName: 'tasks; DROP TABLE x' })).toThrow(
+      'Invalid SQLite table name'
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { parseCron, getNextCronDate } from '../index';
+
+describe('cron', () => {
+  it('should parse lists, ranges, steps and names', () => {
+    const cron = parseCron('*/15 9-17 1,15 JAN-MAR mon-fri');
+
+    expect(Array.from(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(cron.hours)).toHaveLength(9);
+    expect(Array.from(cron.daysOfMonth)).toEqual([1, 15]);
+    expect(Array.from(cron.months)).toEqual([1, 2, 3]);
+    expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid cron value');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step');
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid cron range');
+  });
+
+  it('should find the next matching minute', () => {
+    const after = Date.UTC(2024, 0, 1, 10, 7, 30);
+
+    expect(getNextCronDate('*/15 * * * *', after, 'UTC')).toBe(Date.UTC(2024, 0, 1, 10, 15));
+    expect(getNextCronDate('@daily', after, 'UTC')).toBe(Date.UTC(2024, 0, 2, 0, 0));
+    expect(getNextCronDate('0 9 * * MON', after, 'UTC')).toBe(Date.UTC(2024, 0, 8, 9, 0));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2024-01-01 was a Monday; the 13th or any Friday matches
+    const after = Date.UTC(2024, 0, 1, 12, 0);
+
+    expect(getNextCronDate('0 0 13 * 5', after, 'UTC')).toBe(Date.UTC(2024, 0, 5, 0, 0));
+  });
+
+  it('should evaluate expressions in the given timezone', () => {
+    const after = Date.UTC(2024, 6, 1, 0, 0);
+
+    // 09:00 in New York is 13:00 UTC during daylight saving time
+    expect(getNextCronDate('0 9 * * *', after, 'America/New_York')).toBe(Date.UTC(2024, 6, 1, 13, 0));
+  });
+
+  it('should not skip occurrences on daylight saving transitions', () => {
+    // Clocks in New York went forward on 2024-03-10
+    const after = Date.UTC(2024, 2, 9, 12, 0);
+
+    expect(getNextCronDate('30 3 * * *', after, 'America/New_York')).toBe(Date.UTC(2024, 2, 10, 7, 30));
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  calculateBackoff,
+  parseRetryAfter,
+  serializeError,
+  deserializeError,
+  TimeoutError,
+  DependencyError,
+  QueueFullError,
+  ExpiredError,
+} from '../index';
+
+describe('calculateBackoff', () => {
+  const options = { baseDelay: 1000, maxDelay: 30000 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compute the deterministic strategies', () => {
+    expect([1, 2, 3].map(attempt => calculateBackoff('fixed', attempt, options))).toEqual([1000, 1000, 1000]);
+    expect([1, 2, 3].map(attempt => calculateBackoff('linear', attempt, options))).toEqual([1000, 2000, 3000]);
+    expect([1, 2, 3].map(attempt => calculateBackoff('exponential', attempt, options))).toEqual([2000, 4000, 8000]);
+  });
+
+  it('should cap every strategy at the maximum delay', () => {
+    expect(calculateBackoff('exponential', 10, options)).toBe(30000);
+    expect(calculateBackoff(() => 60000, 1, options)).toBe(30000);
+    expect(calculateBackoff(() => -5, 1, options)).toBe(0);
+  });
+
+  it('should randomize the jitter strategies', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(calculateBackoff('full-jitter', 2, options)).toBe(2000);
+    expect(calculateBackoff('full-jitter', 10, options)).toBe(15000);
+    // Between the base delay and three times the previous delay
+    expect(calculateBackoff('decorrelated-jitter', 1, options)).toBe(2000);
+    expect(calculateBackoff('decorrelated-jitter', 2, { ...options, previousDelay: 3000 })).toBe(5000);
+  });
+
+  it('should pass the attempt and options to custom strategies', () => {
+    const strategy = jest.fn().mockReturnValue(1234);
+
+    expect(calculateBackoff(strategy, 3, { ...options, previousDelay: 500 })).toBe(1234);
+    expect(strategy).toHaveBeenCalledWith(3, { ...options, previousDelay: 500 });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('not a date')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('serializeError', () => {
+  it('should round-trip errors through JSON', () => {
+    const error = Object.assign(new TimeoutError(5000), { cause: new TypeError('Socket hang up') });
+
+    const serialized = JSON.parse(JSON.stringify(serializeError(error)));
+    expect(serialized).toMatchObject({
+      name: 'TimeoutError',
+      message: 'Task timed out after 5000ms',
+      timeout: 5000,
+      cause: { name: 'TypeError', message: 'Socket hang up' },
+    });
+
+    const rehydrated = deserializeError(serialized);
+    expect(rehydrated).toBeInstanceOf(TimeoutError);
+    expect((rehydrated as TimeoutError).timeout).toBe(5000);
+    expect((rehydrated as { cause?: unknown }).cause).toBeInstanceOf(TypeError);
+  });
+
+  it('should restore the queue error classes', () => {
+    const roundTrip = (error: Error) => deserializeError(JSON.parse(JSON.stringify(serializeError(error))));
+
+    const dependencyError = roundTrip(new DependencyError('upload'));
+    expect(dependencyError).toBeInstanceOf(DependencyError);
+    expect((dependencyError as DependencyError).dependencyId).toBe('upload');
+    expect(roundTrip(new QueueFullError(10))).toBeInstanceOf(QueueFullError);
+    expect((roundTrip(new ExpiredError(1000)) as ExpiredError).expiresAt).toBe(1000);
+  });
+
+  it('should serialize thrown non-errors', () => {
+    expect(serializeError('boom')).toEqual({ name: 'Error', message: 'boom' });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * A parsed cron expression, with the allowed values of each field
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field was restricted (not `*`) */
+  daysOfMonthRestricted: boolean;
+  /** Whether the day-of-week field was restricted (not `*`) */
+  daysOfWeekRestricted: boolean;
+}
+
+/**
+ * Wall-clock fields of a timestamp in some timezone
+ */
+interface WallClock {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MINUTE = 60 * 1000;
+
+/**
+ * How far ahead to search for the next occurrence before giving up
+ */
+const MAX_SEARCH_STEPS = 100000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse one field of a cron expression into the set of values it allows
+ */
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  const toNumber = (value: string): number => {
+    const nameIndex = names ? names.indexOf(value.toUpperCase()) : -1;
+    const number = nameIndex !== -1 ? nameIndex + (names === MONTH_NAMES ? 1 : 0) : Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`Invalid cron value "${value}"`);
+    }
+    return number;
+  };
+
+  field.split(',').forEach(part => {
+    const [range, stepValue] = part.split('/');
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      end = stepValue === undefined ? start : max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid cron range "${part}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week).
+ *
+ * Supports `*`, lists, ranges, steps, month and weekday names and the
+ * `@hourly`/`@daily`/`@weekly`/`@monthly`/`@yearly` macros.
+ */
+export function parseCron(expression: string): CronExpression {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields;
+  const weekdays = parseField(daysOfWeek, 0, 7, DAY_NAMES);
+
+  // Both 0 and 7 mean Sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes: parseField(minutes, 0, 59),
+    hours: parseField(hours, 0, 23),
+    daysOfMonth: parseField(daysOfMonth, 1, 31),
+    months: parseField(months, 1, 12, MONTH_NAMES),
+    daysOfWeek: weekdays,
+    daysOfMonthRestricted: daysOfMonth !== '*',
+    daysOfWeekRestricted: daysOfWeek !== '*',
+  };
+}
+
+/**
+ * Get the wall-clock fields of a timestamp, in local time or the given timezone
+ */
+function getWallClock(timestamp: number, timezone?: string): WallClock {
+  const date = new Date(timestamp);
+
+  if (!timezone) {
+    return {
+      minute: date.getMinutes(),
+      hour: date.getHours(),
+      day: date.getDate(),
+      month: date.getMonth() + 1,
+      weekday: date.getDay(),
+    };
+  }
+
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour) % 24,
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+/**
+ * Whether the day of a wall-clock time matches the expression
+ */
+function matchesDay(cron: CronExpression, clock: WallClock): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(clock.day);
+  const dayOfWeek = cron.daysOfWeek.has(clock.weekday);
+
+  // Standard cron: when both day fields are restricted, either may match
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time strictly after `after` that matches a cron expression
+ */
+export function getNextCronDate(expression: string | CronExpression, after: number, timezone?: string): number {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Start at the next whole minute
+  let candidate = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const clock = getWallClock(candidate, timezone);
+    const minutesLeftInHour = 60 - clock.minute;
+
+    if (!cron.months.has(clock.month) || !matchesDay(cron, clock)) {
+      // Jump towards the next day, stopping an hour short so that days
+      // shortened by a DST change are not skipped
+      const minutesLeftInDay = (23 - clock.hour) * 60 + minutesLeftInHour;
+      candidate += (minutesLeftInDay > 60 ? minutesLeftInDay - 60 : minutesLeftInDay) * MINUTE;
+    } else if (!cron.hours.has(clock.hour)) {
+      candidate += minutesLeftInHour * MINUTE;
+    } else if (!cron.minutes.has(clock.minute)) {
+      candidate += MINUTE;
+    } else {
+      return candidate;
+    }
+  }
+
+  throw new Error('Cron expression has no upcoming occurrence');
+}
@@ -0,0 +1,75 @@
+/**
+ * Error used to abort a task's signal when the task is cancelled
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Task was cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Error used to fail a task attempt that exceeded its timeout
+ */
+export class TimeoutError extends Error {
+  /** The timeout in milliseconds that was exceeded */
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Task timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error that fails a task straight away, without any further retries
+ */
+export class UnrecoverableError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = 'UnrecoverableError';
+  }
+}
+
+/**
+ * Error used to fail a task whose dependency failed or was cancelled
+ */
+export class DependencyError extends Error {
+  /** ID of the dependency that did not complete */
+  readonly dependencyId: string;
+
+  constructor(dependencyId: string) {
+    super(`Dependency ${dependencyId} did not complete`);
+    this.name = 'DependencyError';
+    this.dependencyId = dependencyId;
+  }
+}
+
+/**
+ * Error thrown when adding a task to a queue that reached its `maxSize`
+ */
+export class QueueFullError extends Error {
+  /** The size limit of the queue */
+  readonly maxSize: number;
+
+  constructor(maxSize: number) {
+    super(`Queue is full (maxSize ${maxSize})`);
+    this.name = 'QueueFullError';
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * Error used to settle a task that expired before it could complete
+ */
+export class ExpiredError extends Error {
+  /** Timestamp at which the task expired */
+  readonly expiresAt: number;
+
+  constructor(expiresAt: number) {
+    super(`Task expired at ${new Date(expiresAt).toISOString()}`);
+    this.name = 'ExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
@@ -2,21 +2,72 @@
 export { ReliableQueue } from './ReliableQueue';
 export { QueueManager } from './QueueManager';
 
+// Errors
+export {
+  CancelledError,
+  TimeoutError,
+  UnrecoverableError,
+  DependencyError,
+  QueueFullError,
+  ExpiredError,
+} from './errors';
+
+// Storage adapters
+export {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  IndexedDBStorageAdapter,
+  type IndexedDBStorageOptions,
+} from './storage';
+
 // Types
 export {
   TaskStatus,
   type QueueConfig,
   type QueuedTask,
   type TaskProcessor,
+  type TaskContext,
+  type BatchTaskProcessor,
+  type BatchContext,
+  type BatchOptions,
   type QueueEvents,
   type QueueStats,
   type AddTaskOptions,
+  type TypedAddTaskOptions,
+  type QueueStorage,
+  type ScheduleOptions,
+  type TaskSchedule,
+  type DeadLetterInfo,
+  type TaskAttempt,
+  type AttemptOutcome,
+  type SerializedError,
+  type ErrorSerializer,
+  type TaskTypeMap,
+  type TaskTypeOptions,
+  type DependencyFailureAction,
+  type DedupePolicy,
+  type OverflowPolicy,
+  type RetentionPolicy,
+  type RetentionOptions,
+  type RateLimitOptions,
+  type RateLimitState,
+  type RateLimitWindow,
+  type RetryDecision,
+  type BackoffStrategy,
+  type BackoffFunction,
+  type BackoffOptions,
+  type RetryPolicy,
 } from './types';
 
 // Utilities
+export { parseCron, getNextCronDate, type CronExpression } from './cron';
 export {
   generateId,
   calculateRetryDelay,
+  calculateBackoff,
+  parseRetryAfter,
+  serializeError,
+  deserializeError,
   sleep,
   isBrowser,
   safeJsonParse,
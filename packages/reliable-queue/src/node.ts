@@ -0,0 +1,13 @@
+// Node.js-only storage adapters, kept out of the main entry so that
+// browser bundles never pull in built-in modules like `fs`.
+export {
+  FileJournalStorageAdapter,
+  type FileJournalStorageOptions,
+  type JournalOperation,
+} from './storage/FileJournalStorageAdapter';
+export {
+  SqliteStorageAdapter,
+  type SqliteStorageOptions,
+  type SqliteDatabase,
+  type SqliteStatement,
+} from './storage/SqliteStorageAdapter';
@@ -7,16 +7,17 @@ import {
   QueueConfig,
   QueueStats,
   AddTaskOptions,
+  TaskAttempt,
 } from '../types';
 
 /**
  * Options for the useReliableQueue hook
  */
-export interface UseReliableQueueOptions<T = any> extends QueueConfig {
+export interface UseReliableQueueOptions<T = any, R = any> extends QueueConfig {
   /** Name of the queue (for named/shared queues) */
   queueName?: string;
   /** Task processor function */
-  processor?: TaskProcessor<T>;
+  processor?: TaskProcessor<T, R>;
   /** Whether to use a singleton queue manager */
   useSingleton?: boolean;
 }
@@ -24,15 +25,23 @@ export interface UseReliableQueueOptions<T = any> extends QueueConfig {
 /**
  * Return type for the useReliableQueue hook
  */
-export interface UseReliableQueueReturn<T = any> {
+export interface UseReliableQueueReturn<T = any, R = any> {
   /** All tasks in the queue */
-  tasks: QueuedTask<T>[];
+  tasks: QueuedTask<T, R>[];
   /** Queue statistics */
   stats: QueueStats;
+  /** Whether processing is paused */
+  isPaused: boolean;
+  /** Pause processing */
+  pause: () => void;
+  /** Resume processing */
+  resume: () => void;
   /** Add a task to the queue */
   addTask: (data: T, options?: AddTaskOptions) => string;
   /** Remove a task from the queue */
   removeTask: (taskId: string) => boolean;
+  /** Cancel a pending or processing task */
+  cancelTask: (taskId: string) => boolean;
   /** Retry a failed task */
   retryTask: (taskId: string) => boolean;
   /** Retry all failed tasks */
@@ -44,19 +53,23 @@ export interface UseReliableQueueReturn<T = any> {
   /** Clear all tasks */
   clearAll: () => void;
   /** Get a specific task by ID */
-  getTask: (taskId: string) => QueuedTask<T> | undefined;
+  getTask: (taskId: string) => QueuedTask<T, R> | undefined;
+  /** Get the result of a completed task */
+  getResult: (taskId: string) => R | undefined;
+  /** Get the processing attempts of a task, oldest first */
+  getAttempts: (taskId: string) => TaskAttempt[];
   /** Set or update the task processor */
-  setProcessor: (processor: TaskProcessor<T>) => void;
+  setProcessor: (processor: TaskProcessor<T, R>) => void;
   /** The queue instance */
-  queue: ReliableQueue<T>;
+  queue: ReliableQueue<T, R>;
 }
 
 /**
  * React hook for using ReliableQueue
  */
-export function useReliableQueue<T = any>(
-  options: UseReliableQueueOptions<T> = {}
-): UseReliableQueueReturn<T> {
+export function useReliableQueue<T = any, R = any>(
+  options: UseReliableQueueOptions<T, R> = {}
+): UseReliableQueueReturn<T, R> {
   const {
     queueName,
     processor,
@@ -65,20 +78,21 @@ export function useReliableQueue<T = any>(
   } = options;
 
   // Create or get queue instance
-  const queueRef = useRef<ReliableQueue<T>>();
+  const queueRef = useRef<ReliableQueue<T, R>>();
   if (!queueRef.current) {
     if (useSingleton && queueName) {
-      queueRef.current = QueueManager.getInstance().createQueue<T>(queueName, queueConfig);
+      queueRef.current = QueueManager.getInstance().createQueue<T, R>(queueName, queueConfig);
     } else {
-      queueRef.current = new ReliableQueue<T>(queueConfig);
+      queueRef.current = new ReliableQueue<T, R>(queueConfig);
     }
   }
 
   const queue = queueRef.current;
 
   // State for tasks and stats
-  const [tasks, setTasks] = useState<QueuedTask<T>[]>(() => queue.getTasks());
+  const [tasks, setTasks] = useState<QueuedTask<T, R>[]>(() => queue.getTasks());
   const [stats, setStats] = useState<QueueStats>(() => queue.getStats());
+  const [isPaused, setIsPaused] = useState<boolean>(() => queue.isPaused);
 
   // Set processor if provided
   useEffect(() => {
@@ -89,7 +103,7 @@ export function useReliableQueue<T = any>(
 
   // Subscribe to queue updates
   useEffect(() => {
-    const unsubscribe = queue.on('queueUpdated', (updatedTasks: QueuedTask<T>[]) => {
+    const unsubscribe = queue.on('queueUpdated', (updatedTasks: QueuedTask<T, R>[]) => {
       setTasks(updatedTasks);
       setStats(queue.getStats());
     });
@@ -97,6 +111,17 @@ export function useReliableQueue<T = any>(
     return unsubscribe;
   }, [queue]);
 
+  // Subscribe to pause state changes
+  useEffect(() => {
+    const unsubscribePaused = queue.on('queuePaused', () => setIsPaused(true));
+    const unsubscribeResumed = queue.on('queueResumed', () => setIsPaused(false));
+
+    return () => {
+      unsubscribePaused();
+      unsubscribeResumed();
+    };
+  }, [queue]);
+
   // Memoized functions
   const addTask = useCallback(
     (data: T, options?: AddTaskOptions): string => {
@@ -112,6 +137,13 @@ export function useReliableQueue<T = any>(
     [queue]
   );
 
+  const cancelTask = useCallback(
+    (taskId: string): boolean => {
+      return queue.cancel(taskId);
+    },
+    [queue]
+  );
+
   const retryTask = useCallback(
     (taskId: string): boolean => {
       return queue.retry(taskId);
@@ -131,19 +163,41 @@ export function useReliableQueue<T = any>(
     return queue.clearFailed();
   }, [queue]);
 
+  const pause = useCallback((): void => {
+    queue.pause();
+  }, [queue]);
+
+  const resume = useCallback((): void => {
+    queue.resume();
+  }, [queue]);
+
   const clearAll = useCallback((): void => {
     queue.clear();
   }, [queue]);
 
   const getTask = useCallback(
-    (taskId: string): QueuedTask<T> | undefined => {
+    (taskId: string): QueuedTask<T, R> | undefined => {
       return queue.getTask(taskId);
     },
     [queue]
   );
 
+  const getResult = useCallback(
+    (taskId: string): R | undefined => {
+      return queue.getTask(taskId)?.result;
+    },
+    [queue]
+  );
+
+  const getAttempts = useCallback(
+    (taskId: string): TaskAttempt[] => {
+      return queue.getTask(taskId)?.attempts || [];
+    },
+    [queue]
+  );
+
   const setProcessor = useCallback(
-    (newProcessor: TaskProcessor<T>): void => {
+    (newProcessor: TaskProcessor<T, R>): void => {
       queue.setProcessor(newProcessor);
     },
     [queue]
@@ -152,14 +206,20 @@ export function useReliableQueue<T = any>(
   return {
     tasks,
     stats,
+    isPaused,
+    pause,
+    resume,
     addTask,
     removeTask,
+    cancelTask,
     retryTask,
     retryAllTasks,
     clearCompleted,
     clearFailed,
     clearAll,
     getTask,
+    getResult,
+    getAttempts,
     setProcessor,
     queue,
   };
@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { QueuedTask, QueueStorage, TaskSchedule, TaskStatus } from '../types';
+import { safeJsonParse, safeJsonStringify } from '../utils';
+
+/**
+ * Options for the file journal storage adapter
+ */
+export interface FileJournalStorageOptions {
+  /** Directory holding the snapshot and journal files */
+  directory: string;
+  /** Number of journal entries after which the journal is compacted into the snapshot */
+  compactThreshold?: number;
+}
+
+/**
+ * Task state transitions recorded in the journal
+ */
+export type JournalOperation =
+  | 'add'
+  | 'start'
+  | 'complete'
+  | 'fail'
+  | 'retry'
+  | 'cancel'
+  | 'expire'
+  | 'update'
+  | 'remove';
+
+/**
+ * A single line of the journal
+ */
+interface JournalEntry<T> {
+  op: JournalOperation;
+  id: string;
+  at: number;
+  task?: QueuedTask<T>;
+}
+
+/**
+ * Storage adapter for Node.js that persists tasks to the file system.
+ *
+ * Each queue key owns a snapshot file and an append-only journal. Task
+ * changes are appended to the journal as one JSON line per state transition;
+ * once the journal reaches `compactThreshold` entries it is folded into the
+ * snapshot. Loading replays the journal on top of the snapshot, so a crashed
+ * process resumes from its last recorded transition. Recurring task schedules
+ * are small and rewritten as a whole to their own file.
+ */
+export class FileJournalStorageAdapter<T = any> implements QueueStorage<T> {
+  private directory: string;
+  private compactThreshold: number;
+  private states = new Map<string, Map<string, QueuedTask<T>>>();
+  private journalLengths = new Map<string, number>();
+
+  constructor(options: FileJournalStorageOptions) {
+    this.directory = options.directory;
+    this.compactThreshold = options.compactThreshold ?? 500;
+  }
+
+  async load(key: string): Promise<QueuedTask<T>[] | null> {
+    const state = await this.replay(key);
+
+    if ((this.journalLengths.get(key) || 0) > 0) {
+      await this.compact(key);
+    }
+
+    return state.size > 0 ? Array.from(state.values()) : null;
+  }
+
+  async save(key: string, tasks: QueuedTask<T>[]): Promise<void> {
+    this.states.set(key, new Map(tasks.map(task => [task.id, this.copy(task)])));
+    await this.compact(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key);
+    this.journalLengths.delete(key);
+
+    await Promise.all([
+      fs.rm(this.snapshotPath(key), { force: true }),
+      fs.rm(this.journalPath(key), { force: true }),
+      fs.rm(this.schedulesPath(key), { force: true }),
+    ]);
+  }
+
+  async upsertTask(key: string, task: QueuedTask<T>): Promise<void> {
+    const state = await this.getState(key);
+    const op = this.operationFor(state.get(task.id), task);
+    const copy = this.copy(task);
+
+    state.set(task.id, copy);
+    await this.append(key, { op, id: task.id, at: Date.now(), task: copy });
+  }
+
+  async removeTask(key: string, taskId: string): Promise<void> {
+    const state = await this.getState(key);
+    state.delete(taskId);
+    await this.append(key, { op: 'remove', id: taskId, at: Date.now() });
+  }
+
+  async loadSchedules(key: string): Promise<TaskSchedule<T>[] | null> {
+    const schedules = safeJsonParse<TaskSchedule<T>[]>(await this.readFile(this.schedulesPath(key)));
+    return Array.isArray(schedules) ? schedules : null;
+  }
+
+  async saveSchedules(key: string, schedules: TaskSchedule<T>[]): Promise<void> {
+    await this.writeFileAtomic(this.schedulesPath(key), safeJsonStringify(schedules));
+  }
+
+  /**
+   * Fold the journal into a fresh snapshot and truncate it
+   */
+  async compact(key: string): Promise<void> {
+    const state = await this.getState(key);
+
+    await this.writeFileAtomic(this.snapshotPath(key), safeJsonStringify(Array.from(state.values())));
+    await fs.writeFile(this.journalPath(key), '');
+
+    this.journalLengths.set(key, 0);
+  }
+
+  /**
+   * Get the in-memory view of a key, replaying from disk on first access
+   */
+  private async getState(key: string): Promise<Map<string, QueuedTask<T>>> {
+    return this.states.get(key) || this.replay(key);
+  }
+
+  /**
+   * Rebuild the state of a key from its snapshot and journal
+   */
+  private async replay(key: string): Promise<Map<string, QueuedTask<T>>> {
+    const state = new Map<string, QueuedTask<T>>();
+
+    const snapshot = safeJsonParse<QueuedTask<T>[]>(await this.readFile(this.snapshotPath(key)));
+    if (Array.isArray(snapshot)) {
+      snapshot.forEach(task => state.set(task.id, task));
+    }
+
+    let journalLength = 0;
+    const lines = (await this.readFile(this.journalPath(key))).split('\n');
+    lines.forEach(line => {
+      // A torn final line from a crash mid-write is skipped
+      const entry = line ? safeJsonParse<JournalEntry<T>>(line) : null;
+      if (!entry || !entry.id) return;
+
+      journalLength++;
+      if (entry.op === 'remove') {
+        state.delete(entry.id);
+      } else if (entry.task) {
+        state.set(entry.id, entry.task);
+      }
+    });
+
+    this.states.set(key, state);
+    this.journalLengths.set(key, journalLength);
+
+    return state;
+  }
+
+  /**
+   * Append an entry to the journal, compacting once it grows too long
+   */
+  private async append(key: string, entry: JournalEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.appendFile(this.journalPath(key), `${safeJsonStringify(entry)}\n`);
+
+    const journalLength = (this.journalLengths.get(key) || 0) + 1;
+    this.journalLengths.set(key, journalLength);
+
+    if (journalLength >= this.compactThreshold) {
+      await this.compact(key);
+    }
+  }
+
+  /**
+   * Work out which transition an upsert represents
+   */
+  private operationFor(previous: QueuedTask<T> | undefined, task: QueuedTask<T>): JournalOperation {
+    if (!previous) return 'add';
+
+    switch (task.status) {
+      case TaskStatus.PROCESSING:
+        return 'start';
+      case TaskStatus.COMPLETED:
+        return 'complete';
+      case TaskStatus.FAILED:
+        return 'fail';
+      case TaskStatus.CANCELLED:
+        return 'cancel';
+      case TaskStatus.EXPIRED:
+        return 'expire';
+      case TaskStatus.PENDING:
+        return previous.status === TaskStatus.PENDING ? 'update' : 'retry';
+      default:
+        return 'update';
+    }
+  }
+
+  /**
+   * Detach a task from the queue's live object
+   */
+  private copy(task: QueuedTask<T>): QueuedTask<T> {
+    return safeJsonParse<QueuedTask<T>>(safeJsonStringify(task)) || { ...task };
+  }
+
+  /**
+   * Replace a file by writing a temporary copy and renaming it into place
+   */
+  private async writeFileAtomic(filePath: string, contents: string): Promise<void> {
+    const temporaryPath = `${filePath}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temporaryPath, contents);
+    await fs.rename(temporaryPath, filePath);
+  }
+
+  /**
+   * Read a file, treating a missing file as empty
+   */
+  private async readFile(filePath: string): Promise<string> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+      throw error;
+    }
+  }
+
+  private snapshotPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.snapshot.json`);
+  }
+
+  private journalPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.journal.jsonl`);
+  }
+
+  private schedulesPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.schedules.json`);
+  }
+}
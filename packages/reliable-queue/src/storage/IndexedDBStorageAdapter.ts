@@ -0,0 +1,236 @@
+import { QueuedTask, QueueStorage, TaskSchedule, TaskStatus } from '../types';
+
+/**
+ * Options for the IndexedDB storage adapter
+ */
+export interface IndexedDBStorageOptions {
+  /** Name of the IndexedDB database */
+  databaseName?: string;
+  /** Name of the object store holding task records */
+  storeName?: string;
+  /** Name of the object store holding recurring task schedules */
+  scheduleStoreName?: string;
+  /** IndexedDB factory to use (defaults to the global `indexedDB`) */
+  indexedDB?: IDBFactory;
+  /** `IDBKeyRange` of the same implementation as `indexedDB` (defaults to the global `IDBKeyRange`) */
+  IDBKeyRange?: typeof IDBKeyRange;
+}
+
+/**
+ * A task record as stored in IndexedDB, tagged with the queue's storage key
+ */
+type TaskRecord<T> = QueuedTask<T> & { queueKey: string };
+
+/**
+ * The recurring task schedules of one queue, stored as a single record
+ */
+interface ScheduleRecord<T> {
+  queueKey: string;
+  schedules: TaskSchedule<T>[];
+}
+
+const DATABASE_VERSION = 2;
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits, reject if it fails or aborts
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Strip the storage key from a record to get the task back
+ */
+function toTask<T>(record: TaskRecord<T>): QueuedTask<T> {
+  const { queueKey: _queueKey, ...task } = record;
+  return task;
+}
+
+/**
+ * Storage adapter backed by IndexedDB.
+ *
+ * Every task is stored as its own record, so status changes only rewrite the
+ * affected task. Records are indexed by status, processAt and priority, and
+ * task data goes through structured cloning rather than JSON, which means
+ * payloads may contain `Blob`, `File`, `ArrayBuffer` and similar values.
+ */
+export class IndexedDBStorageAdapter<T = any> implements QueueStorage<T> {
+  private databaseName: string;
+  private storeName: string;
+  private scheduleStoreName: string;
+  private factory?: IDBFactory;
+  private keyRanges?: typeof IDBKeyRange;
+  private database?: Promise<IDBDatabase>;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.databaseName = options.databaseName || 'reliable-queue';
+    this.storeName = options.storeName || 'tasks';
+    this.scheduleStoreName = options.scheduleStoreName || 'schedules';
+    this.factory = options.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    this.keyRanges = options.IDBKeyRange || (typeof IDBKeyRange !== 'undefined' ? IDBKeyRange : undefined);
+  }
+
+  async load(key: string): Promise<QueuedTask<T>[] | null> {
+    const store = await this.getStore('readonly');
+    const records = await promisifyRequest<TaskRecord<T>[]>(
+      store.index('queueKey').getAll(key)
+    );
+
+    return records.length > 0 ? records.map(toTask) : null;
+  }
+
+  async save(key: string, tasks: QueuedTask<T>[]): Promise<void> {
+    const store = await this.getStore('readwrite');
+
+    store.delete(this.keyRange(key));
+    tasks.forEach(task => store.put(this.toRecord(key, task)));
+
+    await transactionDone(store.transaction);
+  }
+
+  async delete(key: string): Promise<void> {
+    const database = await this.openDatabase();
+    const transaction = database.transaction([this.storeName, this.scheduleStoreName], 'readwrite');
+
+    transaction.objectStore(this.storeName).delete(this.keyRange(key));
+    transaction.objectStore(this.scheduleStoreName).delete(key);
+
+    await transactionDone(transaction);
+  }
+
+  async upsertTask(key: string, task: QueuedTask<T>): Promise<void> {
+    const store = await this.getStore('readwrite');
+    store.put(this.toRecord(key, task));
+    await transactionDone(store.transaction);
+  }
+
+  async removeTask(key: string, taskId: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    store.delete([key, taskId]);
+    await transactionDone(store.transaction);
+  }
+
+  async loadSchedules(key: string): Promise<TaskSchedule<T>[] | null> {
+    const store = await this.getStore('readonly', this.scheduleStoreName);
+    const record = await promisifyRequest<ScheduleRecord<T> | undefined>(store.get(key));
+
+    return record ? record.schedules : null;
+  }
+
+  async saveSchedules(key: string, schedules: TaskSchedule<T>[]): Promise<void> {
+    const store = await this.getStore('readwrite', this.scheduleStoreName);
+    store.put({ queueKey: key, schedules });
+    await transactionDone(store.transaction);
+  }
+
+  /**
+   * Get all tasks with the given status using the status index
+   */
+  async getTasksByStatus(key: string, status: TaskStatus): Promise<QueuedTask<T>[]> {
+    const store = await this.getStore('readonly');
+    const records = await promisifyRequest<TaskRecord<T>[]>(
+      store.index('status').getAll([key, status])
+    );
+
+    return records.map(toTask);
+  }
+
+  /**
+   * Get tasks whose processAt is at or before the given time, earliest first
+   */
+  async getDueTasks(key: string, now: number = Date.now()): Promise<QueuedTask<T>[]> {
+    const store = await this.getStore('readonly');
+    const records = await promisifyRequest<TaskRecord<T>[]>(
+      store.index('processAt').getAll(this.keyRanges!.bound([key, -Infinity], [key, now]))
+    );
+
+    return records.map(toTask);
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  async close(): Promise<void> {
+    if (!this.database) return;
+
+    const database = await this.database;
+    database.close();
+    this.database = undefined;
+  }
+
+  /**
+   * Key range covering every record stored under a queue key
+   */
+  private keyRange(key: string): IDBKeyRange {
+    // Array keys sort after strings, so [key, []] is above any [key, id]
+    return this.keyRanges!.bound([key], [key, []]);
+  }
+
+  /**
+   * Tag a task with its queue key for storage
+   */
+  private toRecord(key: string, task: QueuedTask<T>): TaskRecord<T> {
+    return { ...task, queueKey: key };
+  }
+
+  /**
+   * Open a transaction on the task store (or another store of the database)
+   */
+  private async getStore(
+    mode: IDBTransactionMode,
+    storeName: string = this.storeName
+  ): Promise<IDBObjectStore> {
+    const database = await this.openDatabase();
+    return database.transaction(storeName, mode).objectStore(storeName);
+  }
+
+  /**
+   * Open (and if needed create) the database
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.database) return this.database;
+
+    const factory = this.factory;
+    if (!factory || !this.keyRanges) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    const request = factory.open(this.databaseName, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+
+      if (!database.objectStoreNames.contains(this.storeName)) {
+        const store = database.createObjectStore(this.storeName, { keyPath: ['queueKey', 'id'] });
+        store.createIndex('queueKey', 'queueKey');
+        store.createIndex('status', ['queueKey', 'status']);
+        store.createIndex('processAt', ['queueKey', 'processAt']);
+        store.createIndex('priority', ['queueKey', 'priority']);
+      }
+
+      if (!database.objectStoreNames.contains(this.scheduleStoreName)) {
+        database.createObjectStore(this.scheduleStoreName, { keyPath: 'queueKey' });
+      }
+    };
+
+    this.database = promisifyRequest(request).catch(error => {
+      this.database = undefined;
+      throw error;
+    });
+
+    return this.database;
+  }
+}
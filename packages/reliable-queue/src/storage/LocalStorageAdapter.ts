@@ -0,0 +1,49 @@
+import { QueuedTask, QueueStorage, TaskSchedule } from '../types';
+import { isBrowser, safeJsonParse, safeJsonStringify } from '../utils';
+
+/**
+ * Storage adapter backed by `window.localStorage`.
+ *
+ * All tasks are serialized to a single key, and recurring task schedules to
+ * `<key>:schedules`. Outside the browser the adapter behaves as an empty store.
+ */
+export class LocalStorageAdapter<T = any> implements QueueStorage<T> {
+  async load(key: string): Promise<QueuedTask<T>[] | null> {
+    if (!isBrowser()) return null;
+
+    const data = localStorage.getItem(key);
+    if (!data) return null;
+
+    const tasks = safeJsonParse<QueuedTask<T>[]>(data);
+    return Array.isArray(tasks) ? tasks : null;
+  }
+
+  async save(key: string, tasks: QueuedTask<T>[]): Promise<void> {
+    if (!isBrowser()) return;
+
+    localStorage.setItem(key, safeJsonStringify(tasks));
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!isBrowser()) return;
+
+    localStorage.removeItem(key);
+    localStorage.removeItem(`${key}:schedules`);
+  }
+
+  async loadSchedules(key: string): Promise<TaskSchedule<T>[] | null> {
+    if (!isBrowser()) return null;
+
+    const data = localStorage.getItem(`${key}:schedules`);
+    if (!data) return null;
+
+    const schedules = safeJsonParse<TaskSchedule<T>[]>(data);
+    return Array.isArray(schedules) ? schedules : null;
+  }
+
+  async saveSchedules(key: string, schedules: TaskSchedule<T>[]): Promise<void> {
+    if (!isBrowser()) return;
+
+    localStorage.setItem(`${key}:schedules`, safeJsonStringify(schedules));
+  }
+}
@@ -0,0 +1,59 @@
+import { QueuedTask, QueueStorage, TaskSchedule } from '../types';
+import { safeJsonParse, safeJsonStringify } from '../utils';
+
+/**
+ * In-memory storage adapter, mainly useful for tests.
+ *
+ * Tasks are deep-copied on every read and write, through JSON like the other
+ * adapters serialize them, so that stored state is not affected by later
+ * mutations of the queue's own task objects.
+ */
+export class MemoryStorageAdapter<T = any> implements QueueStorage<T> {
+  private store = new Map<string, Map<string, QueuedTask<T>>>();
+  private schedules = new Map<string, TaskSchedule<T>[]>();
+
+  async load(key: string): Promise<QueuedTask<T>[] | null> {
+    const tasks = this.store.get(key);
+    if (!tasks) return null;
+
+    return Array.from(tasks.values()).map(task => this.copy(task));
+  }
+
+  async save(key: string, tasks: QueuedTask<T>[]): Promise<void> {
+    this.store.set(key, new Map(tasks.map(task => [task.id, this.copy(task)])));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+    this.schedules.delete(key);
+  }
+
+  async upsertTask(key: string, task: QueuedTask<T>): Promise<void> {
+    let tasks = this.store.get(key);
+    if (!tasks) {
+      tasks = new Map();
+      this.store.set(key, tasks);
+    }
+    tasks.set(task.id, this.copy(task));
+  }
+
+  async removeTask(key: string, taskId: string): Promise<void> {
+    this.store.get(key)?.delete(taskId);
+  }
+
+  async loadSchedules(key: string): Promise<TaskSchedule<T>[] | null> {
+    const schedules = this.schedules.get(key);
+    return schedules ? schedules.map(schedule => this.copy(schedule)) : null;
+  }
+
+  async saveSchedules(key: string, schedules: TaskSchedule<T>[]): Promise<void> {
+    this.schedules.set(key, schedules.map(schedule => this.copy(schedule)));
+  }
+
+  /**
+   * Detach a stored value from the queue's live object
+   */
+  private copy<V>(value: V): V {
+    return safeJsonParse<V>(safeJsonStringify(value)) || { ...value };
+  }
+}
@@ -0,0 +1,271 @@
+import { QueuedTask, QueueStorage, TaskSchedule, TaskStatus } from '../types';
+import { safeJsonParse, safeJsonStringify } from '../utils';
+
+/**
+ * Minimal prepared statement interface shared by `node:sqlite` and
+ * better-sqlite3
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal synchronous database interface shared by `node:sqlite`'s
+ * `DatabaseSync` and better-sqlite3
+ */
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+/**
+ * Options for the SQLite storage adapter
+ */
+export interface SqliteStorageOptions {
+  /** Path of the database file, opened with `node:sqlite` (defaults to in-memory) */
+  path?: string;
+  /** An already opened database to use instead of `path` */
+  database?: SqliteDatabase;
+  /** Name of the table holding tasks */
+  tableName?: string;
+}
+
+/**
+ * Row shape of the task table
+ */
+interface TaskRow {
+  task: string;
+}
+
+/**
+ * Row shape of the schedule table
+ */
+interface ScheduleRow {
+  schedules: string;
+}
+
+/**
+ * Storage adapter backed by a local SQLite database.
+ *
+ * Tasks are stored one row per task, keyed by queue key and task id. The
+ * `status`, `priority`, `process_at` and timestamp columns mirror the
+ * corresponding `QueuedTask` fields so they can be indexed, while the full
+ * task is kept as JSON in the `task` column. Recurring task schedules live
+ * in a companion `<table>_schedules` table, one JSON row per queue key.
+ *
+ * The queue picks its next tasks through `getReadyTasks`, an indexed query,
+ * rather than scanning every task in memory.
+ */
+export class SqliteStorageAdapter<T = any> implements QueueStorage<T> {
+  private options: SqliteStorageOptions;
+  private tableName: string;
+  private database?: Promise<SqliteDatabase>;
+
+  constructor(options: SqliteStorageOptions = {}) {
+    this.options = options;
+    this.tableName = options.tableName || 'reliable_queue_tasks';
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid SQLite table name: ${this.tableName}`);
+    }
+  }
+
+  async load(key: string): Promise<QueuedTask<T>[] | null> {
+    const database = await this.getDatabase();
+    const rows = database
+      .prepare(`SELECT task FROM ${this.tableName} WHERE queue_key = ?`)
+      .all(key) as TaskRow[];
+
+    const tasks = this.toTasks(rows);
+    return tasks.length > 0 ? tasks : null;
+  }
+
+  async save(key: string, tasks: QueuedTask<T>[]): Promise<void> {
+    const database = await this.getDatabase();
+
+    this.transaction(database, () => {
+      database.prepare(`DELETE FROM ${this.tableName} WHERE queue_key = ?`).run(key);
+      const insert = this.prepareUpsert(database);
+      tasks.forEach(task => insert.run(...this.toParams(key, task)));
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    const database = await this.getDatabase();
+
+    this.transaction(database, () => {
+      database.prepare(`DELETE FROM ${this.tableName} WHERE queue_key = ?`).run(key);
+      database.prepare(`DELETE FROM ${this.tableName}_schedules WHERE queue_key = ?`).run(key);
+    });
+  }
+
+  async upsertTask(key: string, task: QueuedTask<T>): Promise<void> {
+    const database = await this.getDatabase();
+    this.prepareUpsert(database).run(...this.toParams(key, task));
+  }
+
+  async removeTask(key: string, taskId: string): Promise<void> {
+    const database = await this.getDatabase();
+    database
+      .prepare(`DELETE FROM ${this.tableName} WHERE queue_key = ? AND id = ?`)
+      .run(key, taskId);
+  }
+
+  async loadSchedules(key: string): Promise<TaskSchedule<T>[] | null> {
+    const database = await this.getDatabase();
+    const [row] = database
+      .prepare(`SELECT schedules FROM ${this.tableName}_schedules WHERE queue_key = ?`)
+      .all(key) as ScheduleRow[];
+
+    const schedules = row ? safeJsonParse<TaskSchedule<T>[]>(row.schedules) : null;
+    return Array.isArray(schedules) ? schedules : null;
+  }
+
+  async saveSchedules(key: string, schedules: TaskSchedule<T>[]): Promise<void> {
+    const database = await this.getDatabase();
+    database
+      .prepare(
+        `INSERT INTO ${this.tableName}_schedules (queue_key, schedules) VALUES (?, ?)
+         ON CONFLICT (queue_key) DO UPDATE SET schedules = excluded.schedules`
+      )
+      .run(key, safeJsonStringify(schedules));
+  }
+
+  /**
+   * Get pending tasks that are due, in processing order, using the indexes
+   */
+  async getReadyTasks(key: string, now: number = Date.now(), limit: number = 1): Promise<QueuedTask<T>[]> {
+    const database = await this.getDatabase();
+    const rows = database
+      .prepare(
+        `SELECT task FROM ${this.tableName}
+         WHERE queue_key = ? AND status = ? AND (process_at IS NULL OR process_at <= ?)
+         ORDER BY priority DESC, created_at ASC
+         LIMIT ?`
+      )
+      .all(key, TaskStatus.PENDING, now, limit) as TaskRow[];
+
+    return this.toTasks(rows);
+  }
+
+  /**
+   * Get all tasks with the given status
+   */
+  async getTasksByStatus(key: string, status: TaskStatus): Promise<QueuedTask<T>[]> {
+    const database = await this.getDatabase();
+    const rows = database
+      .prepare(`SELECT task FROM ${this.tableName} WHERE queue_key = ? AND status = ?`)
+      .all(key, status) as TaskRow[];
+
+    return this.toTasks(rows);
+  }
+
+  /**
+   * Close the underlying database
+   */
+  async close(): Promise<void> {
+    if (!this.database) return;
+
+    const database = await this.database;
+    database.close();
+    this.database = undefined;
+  }
+
+  /**
+   * Open the database and create the schema on first use
+   */
+  private getDatabase(): Promise<SqliteDatabase> {
+    if (!this.database) {
+      this.database = this.openDatabase().catch(error => {
+        this.database = undefined;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  private async openDatabase(): Promise<SqliteDatabase> {
+    let database = this.options.database;
+
+    if (!database) {
+      // Resolved at runtime so bundlers and older Node versions don't need the module
+      const specifier = 'node:sqlite';
+      const sqlite = await import(specifier);
+      database = new sqlite.DatabaseSync(this.options.path || ':memory:') as SqliteDatabase;
+    }
+
+    const table = this.tableName;
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        queue_key TEXT NOT NULL,
+        id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        process_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        task TEXT NOT NULL,
+        PRIMARY KEY (queue_key, id)
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_status ON ${table} (queue_key, status);
+      CREATE INDEX IF NOT EXISTS ${table}_priority ON ${table} (queue_key, priority DESC, created_at);
+      CREATE INDEX IF NOT EXISTS ${table}_process_at ON ${table} (queue_key, process_at);
+      CREATE TABLE IF NOT EXISTS ${table}_schedules (
+        queue_key TEXT PRIMARY KEY,
+        schedules TEXT NOT NULL
+      );
+    `);
+
+    return database;
+  }
+
+  private prepareUpsert(database: SqliteDatabase): SqliteStatement {
+    return database.prepare(
+      `INSERT INTO ${this.tableName}
+         (queue_key, id, status, priority, process_at, created_at, updated_at, task)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (queue_key, id) DO UPDATE SET
+         status = excluded.status,
+         priority = excluded.priority,
+         process_at = excluded.process_at,
+         created_at = excluded.created_at,
+         updated_at = excluded.updated_at,
+         task = excluded.task`
+    );
+  }
+
+  /**
+   * Run statements inside a transaction, rolling back on error
+   */
+  private transaction(database: SqliteDatabase, statements: () => void): void {
+    database.exec('BEGIN');
+    try {
+      statements();
+      database.exec('COMMIT');
+    } catch (error) {
+      database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private toParams(key: string, task: QueuedTask<T>): unknown[] {
+    return [
+      key,
+      task.id,
+      task.status,
+      task.priority || 0,
+      task.processAt ?? null,
+      task.createdAt,
+      task.updatedAt,
+      safeJsonStringify(task),
+    ];
+  }
+
+  private toTasks(rows: TaskRow[]): QueuedTask<T>[] {
+    return rows
+      .map(row => safeJsonParse<QueuedTask<T>>(row.task))
+      .filter((task): task is QueuedTask<T> => task !== null);
+  }
+}
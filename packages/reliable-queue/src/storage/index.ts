@@ -0,0 +1,4 @@
+export { LocalStorageAdapter } from './LocalStorageAdapter';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+export type { IndexedDBStorageOptions } from './IndexedDBStorageAdapter';
@@ -1,11 +1,16 @@
+import type { ReliableQueue } from './ReliableQueue';
+
 /**
  * Status of a queued task
  */
 export enum TaskStatus {
   PENDING = 'pending',
+  BLOCKED = 'blocked',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
 }
 
 /**
@@ -16,22 +21,208 @@ export interface QueueConfig {
   maxRetries?: number;
   /** Base delay in milliseconds before retrying a failed task */
   retryDelay?: number;
-  /** Whether to use exponential backoff for retry delays */
+  /** Whether to use exponential backoff for retry delays (when no `backoff` is set) */
   exponentialBackoff?: boolean;
+  /** Strategy used to compute retry delays, overriding `exponentialBackoff` */
+  backoff?: BackoffStrategy;
   /** Maximum delay in milliseconds for exponential backoff */
   maxRetryDelay?: number;
   /** Maximum number of concurrent tasks being processed */
   concurrency?: number;
+  /** Maximum number of concurrent tasks being processed per `groupKey` */
+  groupConcurrency?: number;
+  /** Limit on how many tasks may start within a time interval */
+  rateLimit?: RateLimitOptions;
+  /** Maximum time in milliseconds a single attempt may take (0 disables the timeout) */
+  timeout?: number;
+  /** Whether the queue starts processing immediately (otherwise it starts paused) */
+  autoStart?: boolean;
   /** Whether to persist queue state (useful for browser storage) */
   persistent?: boolean;
   /** Storage key for persistent queues */
   storageKey?: string;
+  /** Maximum number of attempts kept in each task's `attempts` history */
+  attemptHistoryLimit?: number;
+  /** Customizes how errors are stored on tasks (defaults to `serializeError`) */
+  serializeError?: ErrorSerializer;
+  /** Storage adapter used when `persistent` is enabled (defaults to localStorage) */
+  storage?: QueueStorage;
+  /**
+   * Queue that tasks are moved to once they exhaust their retries, either an
+   * instance or the name of a `QueueManager` queue
+   */
+  deadLetterQueue?: ReliableQueue<any, any> | string;
+  /** Decides whether and when a failed attempt is retried */
+  retryPolicy?: RetryPolicy;
+  /** How tasks added with the `dedupeKey` of an existing task are handled (defaults to `'reject'`) */
+  dedupePolicy?: DedupePolicy;
+  /** Milliseconds during which the `dedupeKey` of a completed task still counts as a duplicate */
+  dedupeTtl?: number;
+  /** Maximum number of unfinished (pending, blocked or processing) tasks */
+  maxSize?: number;
+  /** What `add` does once the queue holds `maxSize` unfinished tasks (defaults to `'throw'`) */
+  overflowPolicy?: OverflowPolicy;
+  /** Milliseconds after being added that tasks expire unless they completed (0 disables expiry) */
+  ttl?: number;
+  /** How long completed and failed tasks are kept (defaults to keeping them until cleared) */
+  retention?: RetentionOptions;
+}
+
+/**
+ * How long finished tasks are kept: `'remove'` removes them as soon as they
+ * finish, otherwise `count` keeps the most recently finished ones and `age`
+ * keeps those that finished within the given milliseconds. With both, tasks
+ * are removed once either limit is exceeded.
+ */
+export type RetentionPolicy = 'remove' | { count?: number; age?: number };
+
+/**
+ * Retention policies for completed and failed tasks
+ */
+export interface RetentionOptions {
+  /** Retention of completed tasks */
+  completed?: RetentionPolicy;
+  /** Retention of failed tasks */
+  failed?: RetentionPolicy;
+}
+
+/**
+ * What adding a task to a full queue does:
+ * - `'throw'` throws a `QueueFullError`
+ * - `'drop-oldest'` drops the oldest waiting task
+ * - `'drop-lowest-priority'` drops the waiting task with the lowest priority,
+ *   the newest one among equals (which may be the new task itself)
+ * - `'drop-new'` drops the new task
+ */
+export type OverflowPolicy = 'throw' | 'drop-oldest' | 'drop-lowest-priority' | 'drop-new';
+
+/**
+ * How a task added with the `dedupeKey` of an existing task is handled:
+ * - `'reject'` keeps the existing task and drops the new one
+ * - `'replace'` replaces the payload of the existing task while it is waiting
+ * - `'extend'` replaces the payload and restarts the delay of the existing
+ *   task while it is waiting (debounce)
+ * - `'keep-latest'` replaces the payload of the waiting task, or adds the new
+ *   one to run once the existing task is done processing
+ *
+ * Tasks that are processing or completed within `dedupeTtl` are only
+ * replaced by `'keep-latest'`; the other policies keep them.
+ */
+export type DedupePolicy = 'reject' | 'replace' | 'extend' | 'keep-latest';
+
+/**
+ * Inputs available to a backoff strategy
+ */
+export interface BackoffOptions {
+  /** Base retry delay in milliseconds */
+  baseDelay: number;
+  /** Maximum retry delay in milliseconds */
+  maxDelay: number;
+  /** Delay used before the previous retry, if any */
+  previousDelay?: number;
+}
+
+/**
+ * Custom backoff: returns the delay in milliseconds before retry number `attempt` (starting at 1)
+ */
+export type BackoffFunction = (attempt: number, options: BackoffOptions) => number;
+
+/**
+ * A built-in backoff strategy name, or a custom backoff function
+ */
+export type BackoffStrategy =
+  | 'fixed'
+  | 'linear'
+  | 'exponential'
+  | 'full-jitter'
+  | 'decorrelated-jitter'
+  | BackoffFunction;
+
+/**
+ * How a failed attempt should be retried:
+ * - `'skip'` fails the task without further retries
+ * - `'retry-now'` retries it immediately
+ * - `{ retryAfter }` retries it after the given number of milliseconds
+ * - `undefined` applies the queue's retry delay
+ */
+export type RetryDecision = 'skip' | 'retry-now' | { retryAfter: number } | undefined;
+
+/**
+ * Hook deciding how a failed attempt is retried. Retries still stop once the
+ * task reaches `maxRetries`, and `UnrecoverableError`s are never retried.
+ */
+export type RetryPolicy<T = any, R = any> = (error: Error, task: QueuedTask<T, R>) => RetryDecision | void;
+
+/**
+ * Rate limit on task starts
+ */
+export interface RateLimitOptions {
+  /** Maximum number of tasks started per interval */
+  max: number;
+  /** Length of the sliding window in milliseconds */
+  interval: number;
+  /** Whether the limit applies to each `groupKey` separately (ungrouped tasks share one limit) */
+  perGroup?: boolean;
+}
+
+/**
+ * Remaining capacity of one rate limit window
+ */
+export interface RateLimitWindow {
+  /** Number of tasks that may still start in the current window */
+  remaining: number;
+  /** When the next task may start, if no capacity remains */
+  resetAt?: number;
+}
+
+/**
+ * Current state of the rate limiter. With `perGroup`, the top-level window
+ * is that of ungrouped tasks.
+ */
+export interface RateLimitState extends RateLimitWindow {
+  /** Maximum number of tasks started per interval */
+  max: number;
+  /** Length of the sliding window in milliseconds */
+  interval: number;
+  /** Windows of groups that started tasks recently, with `perGroup` */
+  groups?: Record<string, RateLimitWindow>;
+}
+
+/**
+ * Storage adapter contract used to persist queue state.
+ *
+ * `load`, `save` and `delete` operate on the whole task list stored under a
+ * key. Adapters that can write individual records may also implement
+ * `upsertTask`/`removeTask`, which the queue prefers for single-task changes.
+ * Adapters that index tasks may implement `getReadyTasks`, which the queue
+ * then uses to pick the next tasks instead of scanning every task in memory.
+ */
+export interface QueueStorage<T = any> {
+  /** Load all tasks stored under the given key */
+  load(key: string): Promise<QueuedTask<T>[] | null>;
+  /** Replace all tasks stored under the given key */
+  save(key: string, tasks: QueuedTask<T>[]): Promise<void>;
+  /** Delete everything stored under the given key */
+  delete(key: string): Promise<void>;
+  /** Insert or update a single task */
+  upsertTask?(key: string, task: QueuedTask<T>): Promise<void>;
+  /** Remove a single task */
+  removeTask?(key: string, taskId: string): Promise<void>;
+  /** Load recurring task schedules stored under the given key */
+  loadSchedules?(key: string): Promise<TaskSchedule<T>[] | null>;
+  /** Replace recurring task schedules stored under the given key */
+  saveSchedules?(key: string, schedules: TaskSchedule<T>[]): Promise<void>;
+  /**
+   * Get up to `limit` pending tasks that are due at `now`, ordered by
+   * priority (highest first), then creation time
+   */
+  getReadyTasks?(key: string, now: number, limit: number): Promise<QueuedTask<T>[]>;
 }
 
 /**
  * A queued task with metadata
  */
-export interface QueuedTask<T = any> {
+export interface QueuedTask<T = any, R = any> {
   /** Unique identifier for the task */
   id: string;
   /** The task data/payload */
@@ -44,37 +235,212 @@ export interface QueuedTask<T = any> {
   createdAt: number;
   /** Timestamp when the task was last updated */
   updatedAt: number;
-  /** Error message if the task failed */
-  error?: string;
+  /** Error of the latest failed attempt */
+  error?: SerializedError;
   /** Priority of the task (higher number = higher priority) */
   priority?: number;
   /** Delay in milliseconds before processing this task */
   delay?: number;
   /** Timestamp when the task should be processed (for delayed tasks) */
   processAt?: number;
+  /** Timeout in milliseconds for each attempt, overriding the queue's timeout */
+  timeout?: number;
+  /** Timestamp after which the task expires instead of starting or being retried */
+  expiresAt?: number;
+  /** Backoff strategy for this task, overriding the queue's (custom functions are not persisted) */
+  backoff?: BackoffStrategy;
+  /** Delay in milliseconds used before the latest retry */
+  backoffDelay?: number;
+  /** Registered task type whose handler processes this task */
+  type?: string;
+  /** Group the task is ordered and limited within */
+  groupKey?: string;
+  /** IDs of the tasks that must complete before this one may start */
+  dependsOn?: string[];
+  /** What happens to this task when a dependency fails or is cancelled */
+  onDependencyFailure?: DependencyFailureAction;
+  /** Results of the dependencies, keyed by task ID, captured once they all completed */
+  parentResults?: Record<string, unknown>;
+  /** Idempotency key used to detect duplicates of this task */
+  dedupeKey?: string;
+  /** How long the key still counts once the task completed, overriding the queue's `dedupeTtl` */
+  dedupeTtl?: number;
+  /** Value returned by the processor once the task completed */
+  result?: R;
+  /** ID of the schedule that enqueued this task, for recurring tasks */
+  scheduleId?: string;
+  /** Where a task in a dead-letter queue came from */
+  deadLetter?: DeadLetterInfo;
+  /** History of processing attempts, oldest first and capped at `attemptHistoryLimit` */
+  attempts?: TaskAttempt[];
+}
+
+/**
+ * How a processing attempt ended
+ */
+export type AttemptOutcome = 'completed' | 'failed' | 'timeout' | 'cancelled' | 'interrupted';
+
+/**
+ * An error converted to a plain, JSON-serializable object
+ */
+export interface SerializedError {
+  /** Error name, e.g. `TypeError` */
+  name: string;
+  /** Error message */
+  message: string;
+  /** Stack trace, if available */
+  stack?: string;
+  /** Serialized `cause` of the error, if any */
+  cause?: unknown;
+  /** Custom fields attached to the error, like an HTTP status code */
+  [key: string]: unknown;
+}
+
+/**
+ * Converts a thrown error into a JSON-serializable object
+ */
+export type ErrorSerializer = (error: Error) => SerializedError;
+
+/**
+ * A single processing attempt of a task
+ */
+export interface TaskAttempt {
+  /** Timestamp when the attempt started */
+  startedAt: number;
+  /** Timestamp when the attempt ended (unset while running or if interrupted) */
+  finishedAt?: number;
+  /** Duration of the attempt in milliseconds */
+  duration?: number;
+  /** How the attempt ended (unset while running) */
+  outcome?: AttemptOutcome;
+  /** The error the attempt failed with */
+  error?: SerializedError;
+}
+
+/**
+ * Origin of a task that was moved to a dead-letter queue
+ */
+export interface DeadLetterInfo {
+  /** Storage key of the queue the task failed in */
+  sourceQueue: string;
+  /**
+   * Identity of the queue the task failed in, used by `redrive`: its storage
+   * key if it is persistent, otherwise an ID unique to the queue instance
+   */
+  sourceId: string;
+  /** Timestamp when the task was moved to the dead-letter queue */
+  failedAt: number;
+}
+
+/**
+ * What happens to a task when one of its dependencies fails or is cancelled:
+ * `'fail'` fails it with a `DependencyError`, `'skip'` cancels it
+ */
+export type DependencyFailureAction = 'fail' | 'skip';
+
+/**
+ * Context passed to the task processor
+ */
+export interface TaskContext {
+  /** Aborted when the task is cancelled or its attempt times out */
+  signal: AbortSignal;
+  /** Results of the task's dependencies, keyed by task ID */
+  parentResults: Record<string, unknown>;
 }
 
 /**
  * Task processor function type
  */
-export type TaskProcessor<T = any> = (data: T, task: QueuedTask<T>) => Promise<void>;
+export type TaskProcessor<T = any, R = any> = (
+  data: T,
+  task: QueuedTask<T, R>,
+  context: TaskContext
+) => Promise<R>;
+
+/**
+ * Context passed to the batch processor
+ */
+export interface BatchContext {
+  /** Aborted when the batch times out */
+  signal: AbortSignal;
+}
+
+/**
+ * Batch processor function type. Receives the data of every task in the
+ * batch and returns one entry per task, in the same order: the task's result,
+ * or an `Error` to fail that task alone. Throwing fails the whole batch.
+ */
+export type BatchTaskProcessor<T = any, R = any> = (
+  items: T[],
+  tasks: QueuedTask<T, R>[],
+  context: BatchContext
+) => Promise<(R | Error)[]>;
+
+/**
+ * How the batch processor groups tasks
+ */
+export interface BatchOptions {
+  /** Maximum number of tasks per batch */
+  size: number;
+  /** Maximum time in milliseconds to wait for a batch to fill (defaults to 0) */
+  wait?: number;
+}
+
+/**
+ * Maps task type names to the payload type of their handlers
+ */
+export type TaskTypeMap = Record<string, any>;
+
+/**
+ * Settings of a registered task type, overriding the queue's
+ */
+export interface TaskTypeOptions {
+  /** Maximum number of attempts for tasks of this type */
+  maxRetries?: number;
+  /** Base delay in milliseconds before retrying */
+  retryDelay?: number;
+  /** Maximum retry delay in milliseconds */
+  maxRetryDelay?: number;
+  /** Backoff strategy for retries */
+  backoff?: BackoffStrategy;
+  /** Decides whether and when a failed attempt is retried */
+  retryPolicy?: RetryPolicy;
+  /** Timeout in milliseconds for each attempt */
+  timeout?: number;
+  /** Maximum number of tasks of this type processed at once (within the queue's concurrency) */
+  concurrency?: number;
+}
 
 /**
  * Queue event types
  */
-export interface QueueEvents<T = any> {
+export interface QueueEvents<T = any, R = any> {
   /** Fired when a task is added to the queue */
-  taskAdded: (task: QueuedTask<T>) => void;
+  taskAdded: (task: QueuedTask<T, R>) => void;
   /** Fired when a task starts processing */
-  taskStarted: (task: QueuedTask<T>) => void;
+  taskStarted: (task: QueuedTask<T, R>) => void;
   /** Fired when a task completes successfully */
-  taskCompleted: (task: QueuedTask<T>) => void;
+  taskCompleted: (task: QueuedTask<T, R>, result: R) => void;
   /** Fired when a task fails */
-  taskFailed: (task: QueuedTask<T>, error: Error) => void;
+  taskFailed: (task: QueuedTask<T, R>, error: Error) => void;
+  /** Fired when a failed task is moved to the dead-letter queue */
+  taskDeadLettered: (task: QueuedTask<T, R>, deadLetterQueue: ReliableQueue<any, any>) => void;
+  /** Fired when a processing attempt of a task ends */
+  taskAttempted: (task: QueuedTask<T, R>, attempt: TaskAttempt) => void;
   /** Fired when a task is retried */
-  taskRetried: (task: QueuedTask<T>) => void;
+  taskRetried: (task: QueuedTask<T, R>) => void;
+  /** Fired when a task is cancelled */
+  taskCancelled: (task: QueuedTask<T, R>) => void;
+  /** Fired when a task is dropped because the queue is full */
+  taskDropped: (task: QueuedTask<T, R>) => void;
+  /** Fired when a task expires before it could complete */
+  taskExpired: (task: QueuedTask<T, R>) => void;
   /** Fired when the queue state changes */
-  queueUpdated: (tasks: QueuedTask<T>[]) => void;
+  queueUpdated: (tasks: QueuedTask<T, R>[]) => void;
+  /** Fired when processing is paused */
+  queuePaused: () => void;
+  /** Fired when processing is resumed */
+  queueResumed: () => void;
 }
 
 /**
@@ -85,12 +451,20 @@ export interface QueueStats {
   total: number;
   /** Number of pending tasks */
   pending: number;
+  /** Number of tasks waiting for their dependencies */
+  blocked: number;
   /** Number of tasks currently being processed */
   processing: number;
   /** Number of completed tasks */
   completed: number;
   /** Number of failed tasks */
   failed: number;
+  /** Number of cancelled tasks */
+  cancelled: number;
+  /** Number of expired tasks */
+  expired: number;
+  /** State of the rate limiter, if one is configured */
+  rateLimit?: RateLimitState;
 }
 
 /**
@@ -103,4 +477,76 @@ export interface AddTaskOptions {
   delay?: number;
   /** Custom ID for the task (if not provided, one will be generated) */
   id?: string;
+  /** Timeout in milliseconds for each attempt, overriding the queue's timeout */
+  timeout?: number;
+  /** Milliseconds after which the task expires unless it completed, overriding the queue's `ttl` */
+  ttl?: number;
+  /** Timestamp at which the task expires unless it completed, taking precedence over `ttl` */
+  expiresAt?: number;
+  /** Backoff strategy for this task, overriding the queue's */
+  backoff?: BackoffStrategy;
+  /**
+   * Group the task belongs to, e.g. a user or document ID. Tasks of a group
+   * start in the order they were added, up to `groupConcurrency` at a time.
+   */
+  groupKey?: string;
+  /** IDs of tasks in this queue that must complete before this one may start */
+  dependsOn?: string[];
+  /** What happens to this task when a dependency fails or is cancelled (defaults to `'fail'`) */
+  onDependencyFailure?: DependencyFailureAction;
+  /** Idempotency key: adding a task with the key of a waiting, processing or recently completed task is a duplicate */
+  dedupeKey?: string;
+  /** How a duplicate of this task is handled, overriding the queue's `dedupePolicy` */
+  dedupePolicy?: DedupePolicy;
+  /** How long this task's key still counts once it completed, overriding the queue's `dedupeTtl` */
+  dedupeTtl?: number;
+}
+
+/**
+ * Options for adding a task of a registered type
+ */
+export type TypedAddTaskOptions<K extends string = string> = AddTaskOptions & {
+  /** Registered task type whose handler processes the task */
+  type: K;
+};
+
+/**
+ * Options for scheduling a recurring task
+ */
+export interface ScheduleOptions extends Omit<
+  AddTaskOptions,
+  'id' | 'delay' | 'expiresAt' | 'dependsOn' | 'onDependencyFailure' | 'dedupeKey' | 'dedupePolicy' | 'dedupeTtl'
+> {
+  /** Custom ID for the schedule (if not provided, one will be generated) */
+  id?: string;
+  /** Interval in milliseconds between occurrences */
+  every?: number;
+  /** Cron expression (minute hour day-of-month month day-of-week) for occurrences */
+  cron?: string;
+  /** IANA timezone the cron expression is evaluated in (defaults to local time) */
+  timezone?: string;
+}
+
+/**
+ * A recurring task definition
+ */
+export interface TaskSchedule<T = any> {
+  /** Unique identifier for the schedule */
+  id: string;
+  /** The data each occurrence is enqueued with */
+  data: T;
+  /** Interval in milliseconds between occurrences */
+  every?: number;
+  /** Cron expression for occurrences */
+  cron?: string;
+  /** IANA timezone the cron expression is evaluated in */
+  timezone?: string;
+  /** Options applied to each enqueued occurrence */
+  taskOptions: Omit<ScheduleOptions, 'id' | 'every' | 'cron' | 'timezone'>;
+  /** Timestamp of the next occurrence */
+  nextRunAt: number;
+  /** Timestamp of the last enqueued occurrence */
+  lastRunAt?: number;
+  /** Timestamp when the schedule was created */
+  createdAt: number;
 }
@@ -1,3 +1,13 @@
+import { BackoffOptions, BackoffStrategy, SerializedError } from './types';
+import {
+  CancelledError,
+  TimeoutError,
+  UnrecoverableError,
+  DependencyError,
+  QueueFullError,
+  ExpiredError,
+} from './errors';
+
 /**
  * Generate a unique ID for tasks
  */
@@ -22,6 +32,139 @@ export function calculateRetryDelay(
   return Math.min(delay, maxDelay);
 }
 
+/**
+ * Calculate the delay before retry number `attempt` (starting at 1) using a backoff strategy.
+ *
+ * The exponential strategies double `baseDelay` per attempt, the jitter
+ * strategies randomize it to spread out retries, and every result is capped at `maxDelay`.
+ */
+export function calculateBackoff(
+  strategy: BackoffStrategy,
+  attempt: number,
+  options: BackoffOptions
+): number {
+  const { baseDelay, maxDelay, previousDelay } = options;
+  let delay: number;
+
+  if (typeof strategy === 'function') {
+    delay = strategy(attempt, options);
+  } else {
+    switch (strategy) {
+      case 'fixed':
+        delay = baseDelay;
+        break;
+      case 'linear':
+        delay = baseDelay * attempt;
+        break;
+      case 'exponential':
+        delay = baseDelay * Math.pow(2, attempt);
+        break;
+      case 'full-jitter':
+        delay = Math.random() * Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
+        break;
+      case 'decorrelated-jitter': {
+        const upper = Math.max(baseDelay, (previousDelay ?? baseDelay) * 3);
+        delay = baseDelay + Math.random() * (upper - baseDelay);
+        break;
+      }
+      default:
+        throw new Error(`Unknown backoff strategy: ${strategy}`);
+    }
+  }
+
+  return Math.max(0, Math.min(delay, maxDelay));
+}
+
+/**
+ * Convert an HTTP `Retry-After` header value (seconds or a date) to milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Error classes restored by `deserializeError`, by name
+ */
+const ERROR_CLASSES: Record<string, new (...args: any[]) => Error> = {
+  Error,
+  TypeError,
+  RangeError,
+  SyntaxError,
+  ReferenceError,
+  EvalError,
+  URIError,
+  CancelledError,
+  TimeoutError,
+  UnrecoverableError,
+  DependencyError,
+  QueueFullError,
+  ExpiredError,
+};
+
+/**
+ * Convert an error, including its `cause` chain and custom fields, to a JSON-serializable object
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const serialized: SerializedError = {
+    ...safeJsonParse<Record<string, unknown>>(safeJsonStringify({ ...error })),
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+
+  const { cause } = error as { cause?: unknown };
+  if (cause !== undefined) {
+    serialized.cause = cause instanceof Error ? serializeError(cause) : cause;
+  }
+
+  return serialized;
+}
+
+/**
+ * Rehydrate a serialized error into an `Error`, restoring built-in and queue
+ * error classes by name along with the stack, `cause` chain and custom fields
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  const { name, message, stack, cause, ...fields } = serialized;
+  const ErrorClass = ERROR_CLASSES[name] || Error;
+
+  // Skip the constructor, whose signature differs between error classes
+  const error: Error = Object.create(ErrorClass.prototype);
+  Object.defineProperty(error, 'message', { value: message, writable: true, configurable: true });
+  Object.assign(error, fields);
+
+  error.name = name;
+  if (stack !== undefined) {
+    error.stack = stack;
+  }
+  if (cause !== undefined) {
+    (error as { cause?: unknown }).cause = isSerializedError(cause) ? deserializeError(cause) : cause;
+  }
+
+  return error;
+}
+
+/**
+ * Whether a value looks like a serialized error
+ */
+function isSerializedError(value: unknown): value is SerializedError {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as SerializedError).name === 'string' &&
+    typeof (value as SerializedError).message === 'string';
+}
+
 /**
  * Sleep for a specified number of milliseconds
  */